@@ -0,0 +1,97 @@
+import type { AddEthereumChainParameter, CompatibleChain } from "./types.js";
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+/** Native currency of added chains that do not name one */
+const DEFAULT_NATIVE_CURRENCY = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+function invalidParams(message: string): ProviderRpcError {
+    return new ProviderRpcError(ProviderErrorCode.InvalidParams, message);
+}
+
+function isHttpUrl(value: unknown): value is string {
+    if (typeof value !== "string") return false;
+    try {
+        const { protocol } = new URL(value);
+        return protocol === "http:" || protocol === "https:";
+    } catch {
+        return false;
+    }
+}
+
+function isUrlList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(isHttpUrl);
+}
+
+/**
+ * Validate the parameter of a wallet_addEthereumChain request against EIP-3085,
+ * failing with -32602 on the first invalid field
+ * @see https://eips.ethereum.org/EIPS/eip-3085
+ */
+export function parseAddChainParameter(
+    param: unknown,
+): AddEthereumChainParameter & { rpcUrls: string[] } {
+    if (typeof param !== "object" || param === null) {
+        throw invalidParams("Expected a single AddEthereumChainParameter object.");
+    }
+    const { chainId, chainName, nativeCurrency, rpcUrls, blockExplorerUrls, iconUrls } =
+        param as Record<string, unknown>;
+
+    if (
+        typeof chainId !== "string" ||
+        !/^0x[1-9a-f][0-9a-f]*$/i.test(chainId) ||
+        parseInt(chainId, 16) > Number.MAX_SAFE_INTEGER
+    ) {
+        throw invalidParams(
+            `Invalid chainId ${String(chainId)}: expected a 0x-prefixed hexadecimal string without leading zeros.`,
+        );
+    }
+    if (chainName !== undefined && (typeof chainName !== "string" || chainName === "")) {
+        throw invalidParams("Invalid chainName: expected a non-empty string.");
+    }
+    if (!isUrlList(rpcUrls) || rpcUrls.length === 0) {
+        throw invalidParams("Invalid rpcUrls: expected at least one http(s) URL.");
+    }
+    if (blockExplorerUrls != null && !isUrlList(blockExplorerUrls)) {
+        throw invalidParams("Invalid blockExplorerUrls: expected an array of http(s) URLs.");
+    }
+    if (
+        iconUrls !== undefined &&
+        (!Array.isArray(iconUrls) || !iconUrls.every((url) => typeof url === "string"))
+    ) {
+        throw invalidParams("Invalid iconUrls: expected an array of URLs.");
+    }
+    if (nativeCurrency !== undefined) {
+        const { name, symbol, decimals } = (nativeCurrency ?? {}) as Record<string, unknown>;
+        if (typeof name !== "string" || name === "") {
+            throw invalidParams("Invalid nativeCurrency.name: expected a non-empty string.");
+        }
+        if (typeof symbol !== "string" || symbol.length < 2 || symbol.length > 6) {
+            throw invalidParams("Invalid nativeCurrency.symbol: expected 2-6 characters.");
+        }
+        if (typeof decimals !== "number" || !Number.isInteger(decimals) || decimals < 0) {
+            throw invalidParams(
+                "Invalid nativeCurrency.decimals: expected a non-negative integer.",
+            );
+        }
+    }
+
+    return param as AddEthereumChainParameter & { rpcUrls: string[] };
+}
+
+/**
+ * Build the chain config of an added chain, served by the given RPC URL
+ */
+export function toCompatibleChain(
+    param: AddEthereumChainParameter,
+    rpcUrl: string,
+): CompatibleChain {
+    const id = parseInt(param.chainId, 16);
+    const [explorer] = param.blockExplorerUrls ?? [];
+    return {
+        id,
+        name: param.chainName ?? `Chain ${id}`,
+        nativeCurrency: param.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY,
+        rpcUrls: { default: { http: [rpcUrl] } },
+        ...(explorer ? { blockExplorers: { default: { name: "Explorer", url: explorer } } } : {}),
+    };
+}
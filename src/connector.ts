@@ -8,8 +8,14 @@ import type {
     CompatibleChain,
     E2EProvider,
     E2EProviderConfig,
+    WalletCapabilities,
 } from "./types.js";
-import { DEFAULT_ANVIL_PRIVATE_KEY, DEFAULT_CHAIN } from "./constants.js";
+import {
+    ANVIL_ACCOUNTS,
+    DEFAULT_ANVIL_MNEMONIC,
+    DEFAULT_CHAIN,
+    deriveAnvilAccounts,
+} from "./constants.js";
 import { disconnect as disconnectProvider } from "./provider-controls.js";
 import { createE2EProvider } from "./provider.js";
 
@@ -28,9 +34,21 @@ export type E2EConnectorConfigParams = {
     /**
      * Account for signing transactions. Can be:
      * - A private key hex string (default: Anvil's first test account)
-     * - A viem Account object (for impersonation or custom accounts)
+     * - A viem Account object (for custom accounts)
      */
     account?: Hex | Account;
+    /** Mnemonic Anvil was started with (default: Anvil's default mnemonic) */
+    mnemonic?: string;
+    /** Number of accounts to derive from the mnemonic (default: 10) */
+    accountsCount?: number;
+    /** Derivation path prefix, the account index is appended (default: "m/44'/60'/0'/0/") */
+    derivationPath?: string;
+    /**
+     * Whether the dApp can see the accounts before connecting (default: true).
+     * Set to false to test first-visit "Connect wallet" flows: isAuthorized returns false
+     * until connect is called.
+     */
+    autoAuthorize?: boolean;
     /** Enable debug logging */
     debug?: boolean;
 };
@@ -115,9 +133,11 @@ export function e2eConnector(
     // Only used when creating provider internally
     const chains = hasProvider(parameters) ? undefined : parameters.chains;
     const rpcUrls = hasProvider(parameters) ? undefined : parameters.rpcUrls;
-    const accountConfig = hasProvider(parameters)
-        ? DEFAULT_ANVIL_PRIVATE_KEY
-        : (parameters.account ?? DEFAULT_ANVIL_PRIVATE_KEY);
+    const accountConfig = hasProvider(parameters) ? undefined : parameters.account;
+    const mnemonic = hasProvider(parameters) ? undefined : parameters.mnemonic;
+    const accountsCount = hasProvider(parameters) ? undefined : parameters.accountsCount;
+    const derivationPath = hasProvider(parameters) ? undefined : parameters.derivationPath;
+    const autoAuthorize = hasProvider(parameters) ? undefined : parameters.autoAuthorize;
     const defaultChain = chains?.[0] ?? DEFAULT_CHAIN;
     const debug = hasProvider(parameters) ? false : (parameters.debug ?? false);
 
@@ -134,6 +154,12 @@ export function e2eConnector(
                 // If we have an external provider, listen to its events and forward to wagmi
                 if (externalProvider) {
                     externalProvider.on("accountsChanged", (accounts: Address[]) => {
+                        // Like wagmi's injected connector, losing every account (e.g. after
+                        // wallet_revokePermissions) disconnects
+                        if (accounts.length === 0) {
+                            config.emitter.emit("disconnect");
+                            return;
+                        }
                         // Match wagmi's injected connector: checksum addresses with getAddress
                         config.emitter.emit("change", {
                             accounts: accounts.map((x) => getAddress(x)),
@@ -151,8 +177,10 @@ export function e2eConnector(
 
             async connect<withCapabilities extends boolean = false>({
                 chainId,
+                withCapabilities,
             }: {
                 chainId?: number;
+                withCapabilities?: withCapabilities | boolean;
             }): Promise<{
                 accounts: AddressesWithCapabilities<withCapabilities>;
                 chainId: number;
@@ -163,24 +191,50 @@ export function e2eConnector(
                         chains,
                         rpcUrls,
                         account: accountConfig,
+                        mnemonic,
+                        accountsCount,
+                        derivationPath,
+                        autoAuthorize,
                         debug,
                     };
                     provider = createE2EProvider(connectorConfig);
                 }
 
-                // Query accounts from the provider
+                // Request accounts, granting the permission again if it was revoked
                 const accounts = await provider.request<AddressesWithCapabilities>({
-                    method: "eth_accounts",
+                    method: "eth_requestAccounts",
                 });
 
                 // Get chain ID from provider or use override
-                const providerChainId = await provider.request<string>({
+                const providerChainId = await provider.request<Hex>({
                     method: "eth_chainId",
                 });
                 const targetChainId = chainId ?? parseInt(providerChainId, 16);
 
+                if (!withCapabilities) {
+                    return {
+                        accounts: accounts as AddressesWithCapabilities<withCapabilities>,
+                        chainId: targetChainId,
+                    };
+                }
+
+                // Attach the EIP-5792 capabilities of the active chain to each account
+                const e2eProvider = provider;
+                const accountsWithCapabilities: AddressesWithCapabilities<true> = await Promise.all(
+                    accounts.map(async (address) => {
+                        const capabilities = await e2eProvider.request<
+                            Record<Hex, WalletCapabilities>
+                        >({
+                            method: "wallet_getCapabilities",
+                            params: [address, [providerChainId]],
+                        });
+                        return { address, capabilities: capabilities[providerChainId] ?? {} };
+                    }),
+                );
+
                 return {
-                    accounts: accounts as AddressesWithCapabilities<withCapabilities>,
+                    accounts:
+                        accountsWithCapabilities as AddressesWithCapabilities<withCapabilities>,
                     chainId: targetChainId,
                 };
             },
@@ -198,6 +252,18 @@ export function e2eConnector(
             async getAccounts(): Promise<readonly Address[]> {
                 if (!provider) {
                     // Fallback: derive from config if provider not yet created
+                    if (autoAuthorize === false) return [];
+                    if (accountConfig === undefined) {
+                        const [defaultAccount] =
+                            mnemonic === undefined && derivationPath === undefined
+                                ? ANVIL_ACCOUNTS
+                                : deriveAnvilAccounts(
+                                      mnemonic ?? DEFAULT_ANVIL_MNEMONIC,
+                                      1,
+                                      derivationPath,
+                                  );
+                        return [defaultAccount!.address];
+                    }
                     const account: Account =
                         typeof accountConfig === "string"
                             ? privateKeyToAccount(accountConfig as Hex)
@@ -227,6 +293,10 @@ export function e2eConnector(
                         chains,
                         rpcUrls,
                         account: accountConfig,
+                        mnemonic,
+                        accountsCount,
+                        derivationPath,
+                        autoAuthorize,
                         debug,
                     };
                     provider = createE2EProvider(connectorConfig);
@@ -236,8 +306,9 @@ export function e2eConnector(
             },
 
             async isAuthorized(): Promise<boolean> {
-                // Always authorized in E2E mode
-                return true;
+                // Authorized until the dApp revokes its eth_accounts permission
+                const accounts = await this.getAccounts();
+                return accounts.length > 0;
             },
 
             async switchChain({ chainId }): Promise<Chain> {
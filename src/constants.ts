@@ -1,4 +1,6 @@
 import type { Address, Hex } from "viem";
+import { toHex } from "viem";
+import { mnemonicToAccount } from "viem/accounts";
 import { mainnet } from "viem/chains";
 
 /** Anvil's default RPC URL */
@@ -10,10 +12,51 @@ export type AnvilAccount = {
     privateKey: Hex;
 };
 
+/** Anvil's default mnemonic */
+export const DEFAULT_ANVIL_MNEMONIC = "test test test test test test test test test test test junk";
+
+/** Anvil's default derivation path prefix (the account index is appended) */
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/";
+
+/** Number of accounts Anvil generates by default */
+export const DEFAULT_ACCOUNTS_COUNT = 10;
+
+/**
+ * Derive the accounts Anvil generates for a mnemonic, in order.
+ * Matches `anvil --mnemonic <mnemonic> --accounts <count> --derivation-path <path>`.
+ *
+ * @param mnemonic - BIP-39 mnemonic
+ * @param count - Number of accounts to derive (default: 10)
+ * @param derivationPath - Derivation path prefix, the account index is appended
+ *   (default: "m/44'/60'/0'/0/")
+ */
+export function deriveAnvilAccounts(
+    mnemonic: string,
+    count: number = DEFAULT_ACCOUNTS_COUNT,
+    derivationPath: string = DEFAULT_DERIVATION_PATH,
+): AnvilAccount[] {
+    if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`Invalid accounts count: ${count}. Must be a positive integer.`);
+    }
+
+    return Array.from({ length: count }, (_, index) => {
+        const path = `${derivationPath}${index}` as `m/44'/60'/${string}`;
+        const account = mnemonicToAccount(mnemonic, { path });
+        const { privateKey } = account.getHdKey();
+        if (!privateKey) {
+            throw new Error(`Could not derive a private key at ${path}.`);
+        }
+        return { address: account.address, privateKey: toHex(privateKey) };
+    });
+}
+
 /**
  * All 10 default Anvil test accounts.
  * These are deterministically generated from the default Anvil mnemonic:
  * "test test test test test test test test test test test junk"
+ *
+ * Equal to `deriveAnvilAccounts(DEFAULT_ANVIL_MNEMONIC, 10)`, precomputed to avoid
+ * deriving keys at import time.
  */
 export const ANVIL_ACCOUNTS: readonly AnvilAccount[] = [
     {
@@ -74,6 +117,16 @@ export const DEFAULT_ANVIL_PRIVATE_KEY: Hex =
 /** Default chain configuration */
 export const DEFAULT_CHAIN = mainnet;
 
+/** EIP-5792 version reported in wallet_getCallsStatus responses */
+export const CALLS_STATUS_VERSION = "2.0.0";
+
+/** Default EIP-6963 wallet metadata (uuid is generated per announcement) */
+export const DEFAULT_PROVIDER_INFO = {
+    name: "Walletless",
+    rdns: "xyz.wonderland.walletless",
+    icon: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect fill="%234F46E5" width="100" height="100" rx="20"/><text x="50" y="65" font-size="50" text-anchor="middle" fill="white">E2E</text></svg>',
+} as const;
+
 /**
  * RPC methods that read data from the blockchain
  * These can be safely redirected to a public/custom RPC URL
@@ -147,6 +200,10 @@ export const WALLET_METHODS = [
     "wallet_watchAsset",
     "wallet_scanQRCode",
     "wallet_registerOnboarding",
+    // EIP-5792
+    "wallet_getCallsStatus",
+    "wallet_showCallsStatus",
+    "wallet_getCapabilities",
 ] as const;
 
 /**
@@ -162,6 +219,10 @@ export const WRITE_METHODS = [
     "eth_signTypedData",
     "eth_signTypedData_v3",
     "eth_signTypedData_v4",
+    // EIP-5792
+    "wallet_sendCalls",
+    // EIP-7702 (non-standard, no wallet RPC has been standardized yet)
+    "wallet_signAuthorization",
 ] as const;
 
 export type ReadMethod = (typeof READ_METHODS)[number];
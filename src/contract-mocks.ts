@@ -0,0 +1,91 @@
+import type { EncodeFunctionResultParameters, Hex } from "viem";
+import {
+    encodeErrorResult,
+    encodeFunctionData,
+    encodeFunctionResult,
+    getAbiItem,
+    isAddressEqual,
+    numberToHex,
+    toFunctionSelector,
+} from "viem";
+
+import type { ContractCallMock, RequestMiddleware, TransactionRequest } from "./types.js";
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+/** Gas answered for eth_estimateGas on mocked calls that do not revert */
+const MOCK_GAS = 100_000n;
+
+const ERROR_STRING_ABI = [
+    { type: "error", name: "Error", inputs: [{ name: "reason", type: "string" }] },
+] as const;
+
+/**
+ * Build the error a mocked call reverts with, like a node would return it
+ */
+function toRevertError(mock: ContractCallMock): ProviderRpcError | undefined {
+    const { revert } = mock;
+    if (revert === undefined) return undefined;
+
+    if (typeof revert === "string") {
+        const data = encodeErrorResult({
+            abi: ERROR_STRING_ABI,
+            errorName: "Error",
+            args: [revert],
+        });
+        return new ProviderRpcError(
+            ProviderErrorCode.ExecutionReverted,
+            `execution reverted: ${revert}`,
+            data,
+        );
+    }
+
+    const data = encodeErrorResult({
+        abi: mock.abi,
+        errorName: revert.errorName,
+        args: revert.args,
+    });
+    return new ProviderRpcError(ProviderErrorCode.ExecutionReverted, "execution reverted", data);
+}
+
+/**
+ * Middleware answering eth_call (and optionally eth_estimateGas) for one contract function.
+ * Calls match by address and function selector, or by the whole calldata when `args` is set.
+ * Encoding happens up front so an unknown function or error name throws right away.
+ */
+export function contractCallMiddleware(mock: ContractCallMock): RequestMiddleware {
+    const { address, abi, functionName, args, estimateGas = false } = mock;
+
+    const item = getAbiItem({ abi, name: functionName, args });
+    if (item?.type !== "function") {
+        throw new Error(`Function "${functionName}" not found on the ABI.`);
+    }
+    const selector = toFunctionSelector(item);
+    const calldata =
+        args !== undefined
+            ? encodeFunctionData({ abi: [item], functionName, args }).toLowerCase()
+            : undefined;
+    const revertError = toRevertError(mock);
+    const result: Hex | undefined = revertError
+        ? undefined
+        : encodeFunctionResult({
+              abi: [item],
+              functionName,
+              result: mock.returns,
+          } as EncodeFunctionResultParameters);
+
+    const matches = (call: TransactionRequest | undefined): boolean => {
+        const data = call?.data?.toLowerCase();
+        if (!call?.to || !data || !isAddressEqual(call.to, address)) return false;
+        return calldata !== undefined ? data === calldata : data.startsWith(selector);
+    };
+
+    return (request, next) => {
+        const intercepted =
+            request.method === "eth_call" || (estimateGas && request.method === "eth_estimateGas");
+        if (!intercepted || !matches(request.params?.[0] as TransactionRequest | undefined)) {
+            return next();
+        }
+        if (revertError) throw revertError;
+        return request.method === "eth_call" ? result : numberToHex(MOCK_GAS);
+    };
+}
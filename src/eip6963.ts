@@ -0,0 +1,76 @@
+import type { E2EProvider, EIP6963ProviderDetail, EIP6963ProviderInfo } from "./types.js";
+import { DEFAULT_PROVIDER_INFO } from "./constants.js";
+
+/**
+ * Random UUIDv4. crypto.randomUUID only exists in secure contexts (HTTPS or localhost), so
+ * dApps served over plain HTTP, e.g. on a LAN test host, build it from getRandomValues.
+ */
+function randomUuid(): string {
+    if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6]! & 0x0f) | 0x40; // version 4
+    bytes[8] = (bytes[8]! & 0x3f) | 0x80; // RFC 4122 variant
+    const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Announces the provider through EIP-6963 (Multi Injected Provider Discovery).
+ *
+ * Dispatches `eip6963:announceProvider` immediately and again on every
+ * `eip6963:requestProvider`, so wallet pickers (RainbowKit, ConnectKit, Web3Modal, wagmi's
+ * `injected` discovery) list the provider like a real browser extension.
+ * Call it several times with different providers and infos to simulate multiple wallets.
+ *
+ * @param provider - The provider to announce (usually created with createE2EProvider)
+ * @param info - Wallet metadata. Missing fields fall back to the Walletless defaults
+ *   and a random uuid.
+ * @param target - Event target to announce on (default: window)
+ * @returns A function that stops re-announcing on `eip6963:requestProvider`
+ *
+ * @throws Error if no target is given outside a browser
+ *
+ * @example
+ * ```ts
+ * const provider = createE2EProvider();
+ * announceE2EProvider(provider, { name: 'E2E Wallet', rdns: 'com.example.e2e' });
+ *
+ * // A second, fake "MetaMask" to test wallet-picker UIs
+ * announceE2EProvider(createE2EProvider({ account: ANVIL_PRIVATE_KEYS[1] }), {
+ *   name: 'MetaMask',
+ *   rdns: 'io.metamask',
+ * });
+ * ```
+ */
+export function announceE2EProvider(
+    provider: E2EProvider,
+    info: Partial<EIP6963ProviderInfo> = {},
+    target: EventTarget | undefined = typeof window !== "undefined" ? window : undefined,
+): () => void {
+    if (!target) {
+        throw new Error(
+            "announceE2EProvider requires a browser window. Pass an event target when running outside a browser.",
+        );
+    }
+
+    const eventTarget = target;
+    const detail: EIP6963ProviderDetail = Object.freeze({
+        info: Object.freeze({
+            uuid: info.uuid ?? randomUuid(),
+            name: info.name ?? DEFAULT_PROVIDER_INFO.name,
+            icon: info.icon ?? DEFAULT_PROVIDER_INFO.icon,
+            rdns: info.rdns ?? DEFAULT_PROVIDER_INFO.rdns,
+        }),
+        provider,
+    });
+
+    function announce(): void {
+        eventTarget.dispatchEvent(new CustomEvent("eip6963:announceProvider", { detail }));
+    }
+
+    announce();
+    eventTarget.addEventListener("eip6963:requestProvider", announce);
+
+    return () => eventTarget.removeEventListener("eip6963:requestProvider", announce);
+}
@@ -0,0 +1,71 @@
+import { BaseError } from "viem";
+
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+type CodedError = { code?: unknown; message?: unknown; data?: unknown };
+
+/** Errors that came from a JSON-RPC error response, as opposed to a network failure */
+const upstreamErrors = new WeakSet<ProviderRpcError>();
+
+/**
+ * Mark an error as the node's JSON-RPC error response
+ */
+export function markUpstreamError(error: ProviderRpcError): ProviderRpcError {
+    upstreamErrors.add(error);
+    return error;
+}
+
+/**
+ * Check whether an error is a node's JSON-RPC error response (see markUpstreamError)
+ */
+export function isUpstreamError(error: unknown): boolean {
+    return error instanceof ProviderRpcError && upstreamErrors.has(error);
+}
+
+/**
+ * Check whether a transport failure wraps a JSON-RPC error response: viem keeps the
+ * response's error object as the innermost cause, while network failures end in a plain
+ * Error without a code
+ */
+export function isJsonRpcErrorResponse(error: unknown): boolean {
+    const innermost = error instanceof BaseError ? (error.walk() as CodedError) : error;
+    return typeof (innermost as CodedError | undefined)?.code === "number";
+}
+
+/**
+ * Convert anything a request can fail with into a ProviderRpcError, so apps and libraries
+ * parse it like a wallet's error.
+ * JSON-RPC errors wrapped by viem are unwrapped to the upstream code, message and revert data;
+ * other failures become -32603 "Internal error" with the message of their innermost cause.
+ */
+export function toProviderRpcError(error: unknown): ProviderRpcError {
+    if (error instanceof ProviderRpcError) return error;
+
+    if (error instanceof BaseError) {
+        // The innermost cause of a viem RPC error is the upstream JSON-RPC error object
+        const upstream = error.walk() as CodedError;
+        if (typeof upstream.code === "number") {
+            return new ProviderRpcError(upstream.code, String(upstream.message), upstream.data);
+        }
+        // Anything else (e.g. a network failure, which viem reports as UnknownRpcError -1)
+        // is an internal error with the message of what actually failed
+        const message =
+            upstream instanceof BaseError
+                ? upstream.shortMessage
+                : upstream instanceof Error
+                  ? upstream.message
+                  : error.shortMessage;
+        return new ProviderRpcError(ProviderErrorCode.InternalError, message);
+    }
+
+    if (error instanceof Error) {
+        const { code, data } = error as CodedError;
+        return new ProviderRpcError(
+            typeof code === "number" ? code : ProviderErrorCode.InternalError,
+            error.message,
+            data,
+        );
+    }
+
+    return new ProviderRpcError(ProviderErrorCode.InternalError, String(error));
+}
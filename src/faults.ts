@@ -0,0 +1,117 @@
+import type { FaultRule } from "./types.js";
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+/**
+ * A fault rule with its match counters
+ */
+export type ActiveFault = {
+    id: number;
+    rule: FaultRule;
+    /** Requests the rule matched */
+    matched: number;
+    /** Requests the rule was applied to */
+    applied: number;
+    /** Settle functions of the requests the rule is holding with `timeout` */
+    hanging: Set<(error?: ProviderRpcError) => void>;
+};
+
+/**
+ * Create the match counters of a newly added rule
+ */
+export function toActiveFault(id: number, rule: FaultRule): ActiveFault {
+    return { id, rule, matched: 0, applied: 0, hanging: new Set() };
+}
+
+/**
+ * Check a method against an exact name or a glob ("*" matches any characters)
+ */
+function matchesMethod(pattern: string, method: string): boolean {
+    if (!pattern.includes("*")) return pattern === method;
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${source}$`).test(method);
+}
+
+/**
+ * Find the fault to apply to a request, counting the match on every matching rule
+ */
+export function findFault(
+    faults: readonly ActiveFault[],
+    method: string,
+    chainId: number,
+    params: unknown[],
+): ActiveFault | undefined {
+    let found: ActiveFault | undefined;
+    for (const fault of faults) {
+        const { rule } = fault;
+        if (!matchesMethod(rule.method, method)) continue;
+        if (rule.chainId !== undefined && rule.chainId !== chainId) continue;
+        if (rule.params && !rule.params(params)) continue;
+
+        fault.matched++;
+        if (found) continue;
+        if (rule.nth !== undefined && fault.matched !== rule.nth) continue;
+        if (rule.times !== undefined && fault.applied >= rule.times) continue;
+        found = fault;
+    }
+    if (found) found.applied++;
+    return found;
+}
+
+/**
+ * Settle the requests a rule is holding: let them through (e.g. once the rule is removed),
+ * or fail them with the given error
+ */
+export function releaseFault(fault: ActiveFault, error?: ProviderRpcError): void {
+    for (const settle of Array.from(fault.hanging)) settle(error);
+}
+
+/**
+ * Hold a request until the rule's timeout ends (failing it) or the rule releases it
+ */
+function hang(fault: ActiveFault, method: string): Promise<void> {
+    const { timeout } = fault.rule;
+    return new Promise<void>((resolve, reject) => {
+        const settle = (error?: ProviderRpcError): void => {
+            clearTimeout(timer);
+            fault.hanging.delete(settle);
+            if (error) reject(error);
+            else resolve();
+        };
+        const timer =
+            typeof timeout === "number"
+                ? setTimeout(
+                      () =>
+                          settle(
+                              new ProviderRpcError(
+                                  ProviderErrorCode.InternalError,
+                                  `Request ${method} timed out after ${timeout}ms.`,
+                              ),
+                          ),
+                      timeout,
+                  )
+                : undefined;
+        fault.hanging.add(settle);
+    });
+}
+
+/**
+ * Apply a fault: wait for its latency, then hang or fail as configured.
+ * A request released from a hang is handled as if the rule did not exist.
+ */
+export async function applyFault(fault: ActiveFault, method: string): Promise<void> {
+    const { rule } = fault;
+    if (rule.latency) {
+        await new Promise((resolve) => setTimeout(resolve, rule.latency));
+    }
+    if (rule.timeout !== undefined && rule.timeout !== false) {
+        await hang(fault, method);
+        return;
+    }
+    if (rule.error) {
+        const { code, message = `Simulated error for ${method}.`, data } = rule.error;
+        throw new ProviderRpcError(code, message, data);
+    }
+}
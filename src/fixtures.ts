@@ -0,0 +1,77 @@
+import type { JsonRpcError, RpcFixture } from "./types.js";
+import { isUpstreamError } from "./errors.js";
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+/**
+ * Normalize params so equivalent requests share a key:
+ * object keys are sorted, hex strings lowercased and undefined values dropped.
+ */
+function normalize(value: unknown): unknown {
+    if (typeof value === "string") {
+        return /^0x[0-9a-fA-F]*$/.test(value) ? value.toLowerCase() : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(
+            Object.keys(value)
+                .sort()
+                .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+                .map((key) => [key, normalize((value as Record<string, unknown>)[key])]),
+        );
+    }
+    return value;
+}
+
+/**
+ * Fixture key of a read request
+ * @example fixtureKey(1, "eth_getBalance", ["0xABC", "latest"]) // '1:eth_getBalance:["0xabc","latest"]'
+ */
+export function fixtureKey(chainId: number, method: string, params: unknown[] = []): string {
+    return `${chainId}:${method}:${JSON.stringify(normalize(params))}`;
+}
+
+/**
+ * Store an upstream response (or JSON-RPC error) in the fixture
+ */
+export function recordFixture(
+    fixture: RpcFixture,
+    key: string,
+    response: { result: unknown } | { error: unknown },
+): void {
+    if (!("error" in response)) {
+        fixture[key] = { result: response.result };
+        return;
+    }
+    // Only JSON-RPC error responses are part of the chain state; network failures and
+    // errors raised before reaching the node are not recorded
+    if (!isUpstreamError(response.error)) return;
+    const { code, message, data } = response.error as JsonRpcError;
+    fixture[key] = { error: { code, message, ...(data !== undefined ? { data } : {}) } };
+}
+
+/**
+ * Answer a read from the fixture
+ *
+ * @throws ProviderRpcError -32001 if the fixture has no response for the request
+ */
+export function replayFixture<T>(fixture: RpcFixture, key: string): T {
+    const entry = fixture[key];
+    if (!entry) {
+        const [chainId, method] = key.split(":");
+        const recorded = Object.keys(fixture).filter((k) => k.startsWith(`${chainId}:${method}:`));
+        throw new ProviderRpcError(
+            ProviderErrorCode.ResourceNotFound,
+            `No fixture for ${key}. ` +
+                (recorded.length > 0
+                    ? `Recorded ${method} requests on chain ${chainId}: ${recorded.join(", ")}.`
+                    : `No ${method} requests were recorded on chain ${chainId}.`) +
+                ' Record it again with fixtures: { mode: "record" }.',
+        );
+    }
+    if ("error" in entry) {
+        throw new ProviderRpcError(entry.error.code, entry.error.message, entry.error.data);
+    }
+    return entry.result as T;
+}
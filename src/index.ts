@@ -11,25 +11,99 @@ export { createE2EProvider } from "./provider.js";
 export {
     setChain,
     disconnect,
+    reconnect,
     setSigningAccount,
+    addAccount,
+    removeAccount,
+    reorderAccounts,
     setRejectSignature,
     setRejectTransaction,
+    setRejectAddChain,
+    setRejectPermissions,
+    setRejectWatchAsset,
+    setApprovalMode,
+    setApprovalDelay,
+    setAddressValidation,
+    getPendingRequests,
+    approveRequest,
+    rejectRequest,
+    setCapabilities,
+    getRecording,
+    clearRecording,
+    exportRecording,
+    getFixture,
+    getWatchedAssets,
+    addFault,
+    removeFault,
+    clearFaults,
+    addMiddleware,
+    removeMiddleware,
+    clearMiddleware,
+    mockContractCall,
+    snapshot,
+    revert,
+    mine,
+    setBalance,
+    setCode,
+    setStorageAt,
+    setNextBlockTimestamp,
+    increaseTime,
+    impersonateAccount,
+    stopImpersonatingAccount,
 } from "./provider-controls.js";
 export type { E2EProviderWithInternal, SigningAccountInput } from "./provider.js";
+export { announceE2EProvider } from "./eip6963.js";
+export { jsonRpcTransport } from "./transport.js";
 export { ProviderErrorCode, ProviderRpcError } from "./types.js";
 
 // Type exports
 export type {
+    AddChainPolicy,
+    AddEthereumChainParameter,
+    AddressValidation,
+    ApprovalDelay,
+    ApprovalDelays,
+    ApprovalMode,
+    Backend,
+    CallReceipt,
+    CallsStatus,
+    ChainTransport,
+    ContractCallMock,
+    ContractCallRevert,
     E2EProvider,
     E2EProviderConfig,
+    EIP6963ProviderDetail,
+    EIP6963ProviderInfo,
+    FaultRule,
+    FixtureMode,
+    FixturesConfig,
+    ImpersonatedAccountInput,
     JsonRpcError,
+    JsonRpcHandler,
     JsonRpcRequest,
     JsonRpcResponse,
+    MemoryBackendOptions,
+    PendingRequest,
     ProviderEvents,
     ProviderState,
+    RecordedRequest,
+    RecordingExport,
+    RequestArguments,
+    RequestMiddleware,
+    RequestRoute,
+    RpcFixture,
+    SendCallsCall,
+    SendCallsParams,
+    SignAuthorizationParams,
+    SmartAccountConfig,
+    SmartAccountFactory,
     TransactionRequest,
     TypedData,
     TypedDataDomain,
+    WalletCapabilities,
+    WalletPermission,
+    WatchAssetParameter,
+    WatchedAsset,
 } from "./types.js";
 
 // Constants and utilities
@@ -37,9 +111,14 @@ export {
     ANVIL_ACCOUNTS,
     ANVIL_ADDRESSES,
     ANVIL_PRIVATE_KEYS,
+    DEFAULT_ACCOUNTS_COUNT,
+    DEFAULT_ANVIL_MNEMONIC,
     DEFAULT_ANVIL_PRIVATE_KEY,
     DEFAULT_ANVIL_RPC_URL,
     DEFAULT_CHAIN,
+    DEFAULT_DERIVATION_PATH,
+    DEFAULT_PROVIDER_INFO,
+    deriveAnvilAccounts,
     isReadMethod,
     isWalletMethod,
     isWriteMethod,
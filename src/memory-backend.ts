@@ -0,0 +1,696 @@
+import type { Block } from "@ethereumjs/block";
+import type { TypedTransaction } from "@ethereumjs/tx";
+import type { RunTxResult, VM } from "@ethereumjs/vm";
+import type { Address, Hex } from "viem";
+import { createBlock } from "@ethereumjs/block";
+import { createCustomCommon, Hardfork, Mainnet } from "@ethereumjs/common";
+import { createLegacyTx, createTxFromRLP } from "@ethereumjs/tx";
+import {
+    createAccount,
+    createAddressFromString,
+    createZeroAddress,
+    hexToBytes,
+    setLengthLeft,
+} from "@ethereumjs/util";
+import { buildBlock, createVM } from "@ethereumjs/vm";
+import {
+    bytesToHex,
+    decodeErrorResult,
+    hexToBigInt,
+    isHex,
+    numberToHex,
+    pad,
+    parseEther,
+} from "viem";
+
+import type {
+    JsonRpcHandler,
+    JsonRpcRequest,
+    JsonRpcResponse,
+    MemoryBackendOptions,
+} from "./types.js";
+import { ANVIL_ACCOUNTS } from "./constants.js";
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+/** Gas limit of every block (Anvil's default) */
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+/** Base fee of the genesis block (Anvil's default) */
+const INITIAL_BASE_FEE = 1_000_000_000n;
+
+/** Priority fee suggested by eth_maxPriorityFeePerGas */
+const PRIORITY_FEE = 1_000_000_000n;
+
+/** Balance of each funded account (Anvil's default) */
+const DEFAULT_BALANCE = parseEther("10000");
+
+type EvmLog = [address: Uint8Array, topics: Uint8Array[], data: Uint8Array];
+
+type CallResult = Awaited<ReturnType<VM["evm"]["runCall"]>>;
+
+/**
+ * A transaction included in a block, with its receipt
+ */
+type MinedTransaction = {
+    tx: TypedTransaction;
+    hash: Hex;
+    from: Address;
+    index: number;
+    gasUsed: bigint;
+    cumulativeGasUsed: bigint;
+    effectiveGasPrice: bigint;
+    status: 0 | 1;
+    contractAddress: Address | null;
+    logs: EvmLog[];
+    logsBloom: Uint8Array;
+    /** Index of the transaction's first log in the block */
+    firstLogIndex: number;
+};
+
+type MinedBlock = {
+    block: Block;
+    hash: Hex;
+    transactions: MinedTransaction[];
+};
+
+/**
+ * eth_call / eth_estimateGas request
+ */
+type CallRequest = {
+    from?: Address;
+    to?: Address | null;
+    data?: Hex;
+    input?: Hex;
+    value?: Hex;
+};
+
+/**
+ * eth_getLogs / eth_newFilter filter
+ */
+type LogFilter = {
+    fromBlock?: string;
+    toBlock?: string;
+    blockHash?: Hex;
+    address?: Address | Address[];
+    topics?: (Hex | Hex[] | null)[];
+};
+
+type Filter =
+    | { type: "log"; filter: LogFilter; cursor: bigint }
+    | { type: "block"; cursor: bigint }
+    | { type: "pendingTransaction" };
+
+/**
+ * Create an in-memory EVM answering JSON-RPC requests like an Anvil node with automine:
+ * every signed transaction is mined in its own block.
+ * State reads always see the latest state, whatever block tag they name.
+ *
+ * @returns A JSON-RPC handler (see jsonRpcTransport)
+ */
+export async function createMemoryBackend({
+    chainId,
+    accounts = ANVIL_ACCOUNTS.map((a) => a.address),
+    balance = DEFAULT_BALANCE,
+}: MemoryBackendOptions): Promise<JsonRpcHandler> {
+    const common = createCustomCommon({ chainId }, Mainnet, { hardfork: Hardfork.Prague });
+    const vm = await createVM({ common });
+    for (const address of accounts) {
+        await vm.stateManager.putAccount(
+            createAddressFromString(address),
+            createAccount({ balance }),
+        );
+    }
+
+    const genesis = createBlock(
+        {
+            header: {
+                number: 0n,
+                gasLimit: BLOCK_GAS_LIMIT,
+                baseFeePerGas: INITIAL_BASE_FEE,
+                timestamp: BigInt(Math.floor(Date.now() / 1000)),
+            },
+        },
+        { common },
+    );
+    const chain: MinedBlock[] = [
+        { block: genesis, hash: bytesToHex(genesis.hash()), transactions: [] },
+    ];
+    const transactions = new Map<Hex, MinedTransaction>();
+    const filters = new Map<Hex, Filter>();
+    let filterId = 0;
+    // Seconds added to the wall clock by evm_increaseTime
+    let timeOffset = 0n;
+    // Timestamp of the next block set by evm_setNextBlockTimestamp
+    let nextTimestamp: bigint | undefined;
+    // Requests run one at a time, since calls run on a checkpoint of the live state
+    let queue: Promise<unknown> = Promise.resolve();
+
+    function latest(): MinedBlock {
+        return chain[chain.length - 1]!;
+    }
+
+    /**
+     * Find a block by tag or number; pending, safe and finalized resolve to the latest block
+     */
+    function findBlock(tag: unknown = "latest"): MinedBlock | undefined {
+        if (tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized") {
+            return latest();
+        }
+        if (tag === "earliest") return chain[0];
+        if (typeof tag === "string" && isHex(tag)) return chain[Number(hexToBigInt(tag))];
+        throw new ProviderRpcError(
+            ProviderErrorCode.InvalidParams,
+            `Invalid block tag: ${String(tag)}.`,
+        );
+    }
+
+    function findBlockByHash(hash: Hex): MinedBlock | undefined {
+        return chain.find((b) => b.hash === hash.toLowerCase());
+    }
+
+    /**
+     * Block number a filter bound refers to, capped at the latest block
+     */
+    function toBlockNumber(tag: string | undefined): bigint {
+        const head = latest().block.header.number;
+        if (typeof tag === "string" && isHex(tag)) {
+            const number = hexToBigInt(tag);
+            return number < head ? number : head;
+        }
+        return findBlock(tag)!.block.header.number;
+    }
+
+    /**
+     * Mine a block, optionally including a transaction
+     *
+     * @throws ProviderRpcError -32003 if the transaction is invalid (nonce, balance, gas...)
+     */
+    async function mine(tx?: TypedTransaction): Promise<void> {
+        const parent = latest().block;
+        const now = nextTimestamp ?? BigInt(Math.floor(Date.now() / 1000)) + timeOffset;
+        const builder = await buildBlock(vm, {
+            parentBlock: parent,
+            headerData: {
+                number: parent.header.number + 1n,
+                timestamp: now > parent.header.timestamp ? now : parent.header.timestamp + 1n,
+                gasLimit: BLOCK_GAS_LIMIT,
+            },
+            blockOpts: { putBlockIntoBlockchain: false },
+        });
+
+        let result: RunTxResult | undefined;
+        if (tx) {
+            try {
+                result = await builder.addTransaction(tx);
+            } catch (error) {
+                await builder.revert();
+                throw new ProviderRpcError(
+                    ProviderErrorCode.TransactionRejected,
+                    error instanceof Error ? error.message : String(error),
+                );
+            }
+        }
+
+        const { block } = await builder.build();
+        nextTimestamp = undefined;
+        const mined: MinedBlock = { block, hash: bytesToHex(block.hash()), transactions: [] };
+        if (tx && result) {
+            const receipt = builder.transactionReceipts[0]!;
+            const baseFee = block.header.baseFeePerGas ?? 0n;
+            const minedTx: MinedTransaction = {
+                tx,
+                hash: bytesToHex(tx.hash()),
+                from: tx.getSenderAddress().toString(),
+                index: 0,
+                gasUsed: result.totalGasSpent,
+                cumulativeGasUsed: receipt.cumulativeBlockGasUsed,
+                effectiveGasPrice: tx.getEffectivePriorityFee(baseFee) + baseFee,
+                status: "status" in receipt ? receipt.status : 1,
+                contractAddress: result.createdAddress?.toString() ?? null,
+                logs: receipt.logs as EvmLog[],
+                logsBloom: receipt.bitvector,
+                firstLogIndex: 0,
+            };
+            mined.transactions.push(minedTx);
+            transactions.set(minedTx.hash, minedTx);
+        }
+        chain.push(mined);
+    }
+
+    /**
+     * Run a call against the latest state without persisting it
+     */
+    async function runCall(
+        { from, to, data, input, value }: CallRequest,
+        gasLimit: bigint,
+    ): Promise<CallResult> {
+        const caller = from ? createAddressFromString(from) : createZeroAddress();
+        await vm.stateManager.checkpoint();
+        try {
+            return await vm.evm.runCall({
+                caller,
+                origin: caller,
+                to: to ? createAddressFromString(to) : undefined,
+                data: hexToBytes(input ?? data ?? "0x"),
+                value: value ? hexToBigInt(value) : 0n,
+                gasLimit,
+                block: latest().block,
+                skipBalance: true,
+            });
+        } finally {
+            await vm.stateManager.revert();
+        }
+    }
+
+    /**
+     * Error for a failed call: reverts fail with code 3 and the revert data, like Anvil
+     */
+    function toCallError({ execResult }: CallResult): ProviderRpcError {
+        const data = bytesToHex(execResult.returnValue);
+        if (execResult.exceptionError?.error !== "revert") {
+            return new ProviderRpcError(
+                ProviderErrorCode.InvalidInput,
+                execResult.exceptionError?.error ?? "execution failed",
+            );
+        }
+
+        let reason = "";
+        try {
+            const { errorName, args } = decodeErrorResult({ abi: [], data });
+            reason =
+                errorName === "Error"
+                    ? `: ${String(args[0])}`
+                    : `: ${errorName}(${String(args[0])})`;
+        } catch {
+            // Custom error: the caller decodes the data with its ABI
+        }
+        return new ProviderRpcError(
+            ProviderErrorCode.ExecutionReverted,
+            `execution reverted${reason}`,
+            data,
+        );
+    }
+
+    /**
+     * Smallest gas limit the call succeeds with, including the intrinsic gas
+     */
+    async function estimateGas(request: CallRequest): Promise<bigint> {
+        const tx = createLegacyTx(
+            {
+                to: request.to ?? undefined,
+                data: hexToBytes(request.input ?? request.data ?? "0x"),
+            },
+            { common },
+        );
+        const intrinsic = tx.getIntrinsicGas();
+        const cap = BLOCK_GAS_LIMIT - intrinsic;
+        const succeeds = async (gas: bigint): Promise<boolean> =>
+            (await runCall(request, gas)).execResult.exceptionError === undefined;
+
+        const result = await runCall(request, cap);
+        if (result.execResult.exceptionError) throw toCallError(result);
+
+        // The gas used is not always enough (63/64 rule for sub-calls): search up to the cap
+        let low = result.execResult.executionGasUsed;
+        let high = cap;
+        if (!(await succeeds(low))) {
+            while (high - low > 1n) {
+                const middle = (low + high) / 2n;
+                if (await succeeds(middle)) high = middle;
+                else low = middle;
+            }
+            low = high;
+        }
+        const minimum = tx.getMinimumGasLimit();
+        return intrinsic + low > minimum ? intrinsic + low : minimum;
+    }
+
+    function formatBlock({ block, hash, transactions }: MinedBlock, full: boolean): object {
+        const { uncleHash, coinbase, transactionsTrie, receiptTrie, ...header } =
+            block.header.toJSON();
+        return {
+            ...header,
+            hash,
+            sha3Uncles: uncleHash,
+            miner: coinbase,
+            transactionsRoot: transactionsTrie,
+            receiptsRoot: receiptTrie,
+            totalDifficulty: "0x0",
+            size: numberToHex(block.serialize().length),
+            uncles: [],
+            withdrawals: [],
+            transactions: transactions.map((t) => (full ? formatTransaction(t) : t.hash)),
+        };
+    }
+
+    function blockOf(mined: MinedTransaction): MinedBlock {
+        return chain.find((b) => b.transactions.includes(mined))!;
+    }
+
+    function formatTransaction(mined: MinedTransaction): object {
+        const { block, hash: blockHash } = blockOf(mined);
+        const { gasLimit, data, ...json } = mined.tx.toJSON();
+        return {
+            ...json,
+            hash: mined.hash,
+            from: mined.from,
+            to: json.to ?? null,
+            gas: gasLimit,
+            input: data,
+            gasPrice: "gasPrice" in json ? json.gasPrice : numberToHex(mined.effectiveGasPrice),
+            blockHash,
+            blockNumber: numberToHex(block.header.number),
+            transactionIndex: numberToHex(mined.index),
+        };
+    }
+
+    function formatLogs(mined: MinedTransaction): object[] {
+        const { block, hash: blockHash } = blockOf(mined);
+        return mined.logs.map(([address, topics, data], i) => ({
+            address: bytesToHex(address),
+            topics: topics.map((topic) => bytesToHex(topic)),
+            data: bytesToHex(data),
+            blockHash,
+            blockNumber: numberToHex(block.header.number),
+            transactionHash: mined.hash,
+            transactionIndex: numberToHex(mined.index),
+            logIndex: numberToHex(mined.firstLogIndex + i),
+            removed: false,
+        }));
+    }
+
+    function formatReceipt(mined: MinedTransaction): object {
+        const { block, hash: blockHash } = blockOf(mined);
+        return {
+            transactionHash: mined.hash,
+            transactionIndex: numberToHex(mined.index),
+            blockHash,
+            blockNumber: numberToHex(block.header.number),
+            from: mined.from,
+            to: mined.tx.to?.toString() ?? null,
+            cumulativeGasUsed: numberToHex(mined.cumulativeGasUsed),
+            gasUsed: numberToHex(mined.gasUsed),
+            effectiveGasPrice: numberToHex(mined.effectiveGasPrice),
+            contractAddress: mined.contractAddress,
+            logs: formatLogs(mined),
+            logsBloom: bytesToHex(mined.logsBloom),
+            status: numberToHex(mined.status),
+            type: numberToHex(mined.tx.type),
+        };
+    }
+
+    /**
+     * Logs of the blocks in range matching the filter's address and topics
+     */
+    function getLogs({ fromBlock, toBlock, blockHash, address, topics = [] }: LogFilter): object[] {
+        const blocks = blockHash
+            ? chain.filter((b) => b.hash === blockHash.toLowerCase())
+            : chain.slice(Number(toBlockNumber(fromBlock)), Number(toBlockNumber(toBlock)) + 1);
+        const addresses = (Array.isArray(address) ? address : address ? [address] : []).map((a) =>
+            a.toLowerCase(),
+        );
+
+        return blocks
+            .flatMap((b) => b.transactions.flatMap(formatLogs))
+            .filter((log) => {
+                const { address: logAddress, topics: logTopics } = log as {
+                    address: Hex;
+                    topics: Hex[];
+                };
+                if (addresses.length > 0 && !addresses.includes(logAddress)) return false;
+                return topics.every((topic, i) => {
+                    if (topic === null) return true;
+                    const options = (Array.isArray(topic) ? topic : [topic]).map((t) =>
+                        t.toLowerCase(),
+                    );
+                    return logTopics[i] !== undefined && options.includes(logTopics[i]);
+                });
+            });
+    }
+
+    function getFilter(id: Hex): Filter {
+        const filter = filters.get(id);
+        if (!filter) {
+            throw new ProviderRpcError(ProviderErrorCode.ResourceNotFound, "filter not found");
+        }
+        return filter;
+    }
+
+    function addFilter(filter: Filter): Hex {
+        const id = numberToHex(++filterId);
+        filters.set(id, filter);
+        return id;
+    }
+
+    /**
+     * Change the state outside of a transaction (Anvil cheatcodes)
+     */
+    async function setAccount(
+        address: Address,
+        update: (account: ReturnType<typeof createAccount>) => void,
+    ): Promise<void> {
+        const key = createAddressFromString(address);
+        const account = (await vm.stateManager.getAccount(key)) ?? createAccount({});
+        update(account);
+        await vm.stateManager.putAccount(key, account);
+    }
+
+    const handlers: Record<string, (params: unknown[]) => Promise<unknown> | unknown> = {
+        // Chain methods
+        eth_chainId: () => numberToHex(chainId),
+        net_version: () => String(chainId),
+        net_listening: () => true,
+        net_peerCount: () => "0x0",
+        web3_clientVersion: () => "walletless/memory",
+        eth_syncing: () => false,
+        eth_protocolVersion: () => "0x41",
+
+        // Block methods
+        eth_blockNumber: () => numberToHex(latest().block.header.number),
+        eth_getBlockByNumber: ([tag, full]) => {
+            const block = findBlock(tag);
+            return block ? formatBlock(block, full === true) : null;
+        },
+        eth_getBlockByHash: ([hash, full]) => {
+            const block = findBlockByHash(hash as Hex);
+            return block ? formatBlock(block, full === true) : null;
+        },
+        eth_getBlockTransactionCountByNumber: ([tag]) => {
+            const block = findBlock(tag);
+            return block ? numberToHex(block.transactions.length) : null;
+        },
+        eth_getBlockTransactionCountByHash: ([hash]) => {
+            const block = findBlockByHash(hash as Hex);
+            return block ? numberToHex(block.transactions.length) : null;
+        },
+        eth_getUncleCountByBlockNumber: ([tag]) => (findBlock(tag) ? "0x0" : null),
+        eth_getUncleCountByBlockHash: ([hash]) => (findBlockByHash(hash as Hex) ? "0x0" : null),
+        eth_getUncleByBlockNumberAndIndex: () => null,
+        eth_getUncleByBlockHashAndIndex: () => null,
+
+        // Transaction methods
+        eth_getTransactionByHash: ([hash]) => {
+            const mined = transactions.get((hash as Hex).toLowerCase() as Hex);
+            return mined ? formatTransaction(mined) : null;
+        },
+        eth_getTransactionByBlockNumberAndIndex: ([tag, index]) => {
+            const mined = findBlock(tag)?.transactions[Number(index)];
+            return mined ? formatTransaction(mined) : null;
+        },
+        eth_getTransactionByBlockHashAndIndex: ([hash, index]) => {
+            const mined = findBlockByHash(hash as Hex)?.transactions[Number(index)];
+            return mined ? formatTransaction(mined) : null;
+        },
+        eth_getTransactionReceipt: ([hash]) => {
+            const mined = transactions.get((hash as Hex).toLowerCase() as Hex);
+            return mined ? formatReceipt(mined) : null;
+        },
+        eth_getTransactionCount: async ([address]) => {
+            const account = await vm.stateManager.getAccount(
+                createAddressFromString(address as Address),
+            );
+            return numberToHex(account?.nonce ?? 0n);
+        },
+        eth_sendRawTransaction: async ([raw]) => {
+            let tx: TypedTransaction;
+            try {
+                tx = createTxFromRLP(hexToBytes(raw as Hex), { common });
+            } catch (error) {
+                throw new ProviderRpcError(
+                    ProviderErrorCode.InvalidInput,
+                    error instanceof Error ? error.message : String(error),
+                );
+            }
+            await mine(tx);
+            return bytesToHex(tx.hash());
+        },
+
+        // Account/State methods
+        eth_getBalance: async ([address]) => {
+            const account = await vm.stateManager.getAccount(
+                createAddressFromString(address as Address),
+            );
+            return numberToHex(account?.balance ?? 0n);
+        },
+        eth_getCode: async ([address]) =>
+            bytesToHex(await vm.stateManager.getCode(createAddressFromString(address as Address))),
+        eth_getStorageAt: async ([address, slot]) => {
+            const value = await vm.stateManager.getStorage(
+                createAddressFromString(address as Address),
+                setLengthLeft(hexToBytes(slot as Hex), 32),
+            );
+            return pad(bytesToHex(value), { size: 32 });
+        },
+        eth_call: async ([request]) => {
+            const result = await runCall(request as CallRequest, BLOCK_GAS_LIMIT);
+            if (result.execResult.exceptionError) throw toCallError(result);
+            return bytesToHex(result.execResult.returnValue);
+        },
+
+        // Filter methods
+        eth_getLogs: ([filter]) => getLogs(filter as LogFilter),
+        eth_newFilter: ([filter]) =>
+            addFilter({
+                type: "log",
+                filter: filter as LogFilter,
+                cursor: latest().block.header.number,
+            }),
+        eth_newBlockFilter: () =>
+            addFilter({ type: "block", cursor: latest().block.header.number }),
+        eth_newPendingTransactionFilter: () => addFilter({ type: "pendingTransaction" }),
+        eth_uninstallFilter: ([id]) => filters.delete(id as Hex),
+        eth_getFilterLogs: ([id]) => {
+            const filter = getFilter(id as Hex);
+            return filter.type === "log" ? getLogs(filter.filter) : [];
+        },
+        eth_getFilterChanges: ([id]) => {
+            const filter = getFilter(id as Hex);
+            // Transactions are mined right away, so none is ever pending
+            if (filter.type === "pendingTransaction") return [];
+
+            const head = latest().block.header.number;
+            const from = filter.cursor + 1n;
+            filter.cursor = head;
+            if (filter.type === "block") {
+                return chain.slice(Number(from)).map((b) => b.hash);
+            }
+            const start = toBlockNumber(filter.filter.fromBlock);
+            return getLogs({
+                ...filter.filter,
+                fromBlock: numberToHex(from > start ? from : start),
+                toBlock: filter.filter.toBlock ?? "latest",
+            });
+        },
+
+        // Gas methods
+        eth_gasPrice: () => numberToHex(latest().block.header.calcNextBaseFee() + PRIORITY_FEE),
+        eth_maxPriorityFeePerGas: () => numberToHex(PRIORITY_FEE),
+        eth_estimateGas: async ([request]) =>
+            numberToHex(await estimateGas(request as CallRequest)),
+        eth_feeHistory: ([blockCount, newestBlock, rewardPercentiles]) => {
+            const newest = Number(findBlock(newestBlock)?.block.header.number ?? 0n);
+            const count = Math.min(Number(blockCount), newest + 1);
+            const blocks = chain.slice(newest - count + 1, newest + 1);
+            const percentiles = (rewardPercentiles as number[] | undefined) ?? [];
+            return {
+                oldestBlock: numberToHex(newest - count + 1),
+                baseFeePerGas: [
+                    ...blocks.map((b) => numberToHex(b.block.header.baseFeePerGas ?? 0n)),
+                    numberToHex(chain[newest]!.block.header.calcNextBaseFee()),
+                ],
+                gasUsedRatio: blocks.map(
+                    (b) => Number(b.block.header.gasUsed) / Number(b.block.header.gasLimit),
+                ),
+                ...(percentiles.length > 0
+                    ? {
+                          reward: blocks.map((b) => {
+                              const [mined] = b.transactions;
+                              const tip = mined
+                                  ? mined.effectiveGasPrice - (b.block.header.baseFeePerGas ?? 0n)
+                                  : 0n;
+                              return percentiles.map(() => numberToHex(tip));
+                          }),
+                      }
+                    : {}),
+            };
+        },
+
+        // Anvil cheatcodes
+        anvil_setBalance: ([address, value]) =>
+            setAccount(address as Address, (account) => {
+                account.balance = hexToBigInt(value as Hex);
+            }).then(() => null),
+        anvil_setCode: async ([address, code]) => {
+            await vm.stateManager.putCode(
+                createAddressFromString(address as Address),
+                hexToBytes(code as Hex),
+            );
+            return null;
+        },
+        anvil_setStorageAt: async ([address, slot, value]) => {
+            await vm.stateManager.putStorage(
+                createAddressFromString(address as Address),
+                setLengthLeft(hexToBytes(slot as Hex), 32),
+                setLengthLeft(hexToBytes(value as Hex), 32),
+            );
+            return true;
+        },
+        anvil_mine: async ([count = "0x1", interval]) => {
+            for (let i = 0n; i < hexToBigInt(count as Hex); i++) {
+                if (interval !== undefined && i > 0n) {
+                    nextTimestamp = latest().block.header.timestamp + hexToBigInt(interval as Hex);
+                }
+                await mine();
+            }
+            return null;
+        },
+        evm_mine: async () => {
+            await mine();
+            return "0x0";
+        },
+        evm_increaseTime: ([seconds]) => {
+            timeOffset += BigInt(seconds as Hex | number);
+            return numberToHex(timeOffset);
+        },
+        evm_setNextBlockTimestamp: ([timestamp]) => {
+            nextTimestamp = BigInt(timestamp as Hex | number);
+            return null;
+        },
+    };
+
+    return async function request({
+        id,
+        method,
+        params = [],
+    }: JsonRpcRequest): Promise<JsonRpcResponse> {
+        const handler = handlers[method];
+        const run = queue.then(async () => {
+            if (!handler) {
+                throw new ProviderRpcError(
+                    ProviderErrorCode.MethodNotFound,
+                    `Method ${method} is not supported by the in-memory backend.`,
+                );
+            }
+            return (await handler(params)) ?? null;
+        });
+        queue = run.catch(() => undefined);
+
+        try {
+            return { jsonrpc: "2.0", id, result: await run };
+        } catch (error) {
+            const { code, message, data } =
+                error instanceof ProviderRpcError
+                    ? error
+                    : {
+                          code: ProviderErrorCode.InternalError,
+                          message: String(error),
+                          data: undefined,
+                      };
+            return {
+                jsonrpc: "2.0",
+                id,
+                error: { code, message, ...(data !== undefined ? { data } : {}) },
+            };
+        }
+    };
+}
@@ -0,0 +1,5 @@
+// In-memory EVM backend for `transport` configs that need it on some chains only; the provider
+// also loads it lazily for `backend: "memory"`, so the optional ethereumjs packages stay optional
+export { createMemoryBackend } from "./memory-backend.js";
+export { memoryTransport } from "./transport.js";
+export type { MemoryBackendOptions } from "./types.js";
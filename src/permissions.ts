@@ -0,0 +1,41 @@
+import type { Address } from "viem";
+
+import type { WalletPermission } from "./types.js";
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+/** The only permission the provider can grant */
+const ACCOUNTS_PERMISSION = "eth_accounts";
+
+/**
+ * Validate the parameter of a wallet_requestPermissions or wallet_revokePermissions
+ * request, which must name eth_accounts and nothing else
+ * @see https://eips.ethereum.org/EIPS/eip-2255
+ */
+export function parsePermissionsParameter(param: unknown): void {
+    if (typeof param !== "object" || param === null || Array.isArray(param)) {
+        throw new ProviderRpcError(
+            ProviderErrorCode.InvalidParams,
+            'Expected a single permissions object, e.g. { "eth_accounts": {} }.',
+        );
+    }
+    const names = Object.keys(param);
+    const unsupported = names.find((name) => name !== ACCOUNTS_PERMISSION);
+    if (names.length === 0 || unsupported !== undefined) {
+        throw new ProviderRpcError(
+            ProviderErrorCode.InvalidParams,
+            `Unsupported permission: ${unsupported ?? "none requested"}. Only eth_accounts is supported.`,
+        );
+    }
+}
+
+/**
+ * Build the eth_accounts permission, restricted to the accounts the dApp can see
+ */
+export function toAccountsPermission(accounts: Address[], date: number): WalletPermission {
+    return {
+        invoker: typeof window !== "undefined" ? window.location.origin : "http://localhost",
+        parentCapability: ACCOUNTS_PERMISSION,
+        caveats: [{ type: "restrictReturnedAccounts", value: accounts }],
+        date,
+    };
+}
@@ -1,5 +1,21 @@
+import type { Address, Hex } from "viem";
+
 import type { E2EProviderWithInternal, SigningAccountInput } from "./provider.js";
-import type { E2EProvider } from "./types.js";
+import type {
+    AddressValidation,
+    ApprovalDelays,
+    ApprovalMode,
+    ContractCallMock,
+    E2EProvider,
+    FaultRule,
+    PendingRequest,
+    RecordedRequest,
+    RecordingExport,
+    RequestMiddleware,
+    RpcFixture,
+    WalletCapabilities,
+    WatchedAsset,
+} from "./types.js";
 
 /**
  * Changes the active chain used by the provider.
@@ -41,28 +57,67 @@ export function setChain(provider: E2EProvider, chainId: number): void {
 }
 
 /**
- * Triggers a disconnect event on the provider
+ * Disconnects the wallet from the dApp and emits a disconnect event.
+ * Wallet prompts still pending (manual or delayed approval) are rejected with 4900,
+ * eth_accounts returns [] and other requests fail with 4900 until the dApp requests
+ * accounts again (eth_requestAccounts or wallet_requestPermissions).
+ *
+ * With a chain ID, only that chain is disconnected: requests made while it is the current
+ * chain fail with 4901 until reconnect is called for it, and no event is emitted.
+ *
+ * @param provider - The E2E provider instance
+ * @param chainId - Chain to disconnect from (default: every chain)
+ *
+ * @example
+ * ```ts
+ * // Test the "RPC unreachable" state of the current chain
+ * disconnect(provider, 1);
+ * await provider.request({ method: 'eth_blockNumber' }); // throws 4901
+ * reconnect(provider, 1);
+ * ```
  */
-export function disconnect(provider: E2EProvider): void {
+export function disconnect(provider: E2EProvider, chainId?: number): void {
     const p = provider as E2EProviderWithInternal;
     if (typeof p.disconnect !== "function") {
         throw new Error(
             "Provider does not support disconnect. Make sure you're using a provider created with createE2EProvider.",
         );
     }
-    p.disconnect();
+    p.disconnect(chainId);
+}
+
+/**
+ * Restores the connection after disconnect, emitting a connect event.
+ * With autoAuthorize (the default) the dApp's accounts permission is restored too, emitting
+ * accountsChanged; otherwise it gets the accounts once it requests them again.
+ *
+ * @param provider - The E2E provider instance
+ * @param chainId - Chain to reconnect to (default: every chain)
+ */
+export function reconnect(provider: E2EProvider, chainId?: number): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.reconnect !== "function") {
+        throw new Error(
+            "Provider does not support reconnect. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.reconnect(chainId);
 }
 
 /**
  * Changes the signing account used by the provider.
  * This updates both the internal wallet client and emits an accountsChanged event.
+ * Any other authorized accounts (see addAccount) are replaced by this one.
  *
  * @param provider - The E2E provider instance (must be created with createE2EProvider)
  * @param account - The account to switch to. Can be:
  *   - A number (0-9): Index of the default Anvil account
  *   - An address string (42 chars): Looks up the matching Anvil account's private key
  *   - A private key string (66 chars): Uses the raw private key directly
- *   - A viem Account object: Uses the account directly (for impersonation or custom accounts)
+ *   - A viem Account object: Uses the account directly (for custom accounts)
+ *   - `{ impersonate: address }`: Acts as any address without a private key. Transactions are
+ *     sent unsigned to Anvil (after anvil_impersonateAccount); signature requests fail with a
+ *     4200 error, or the error / stub signature given in `onSign`
  *
  * @example
  * ```ts
@@ -80,6 +135,9 @@ export function disconnect(provider: E2EProvider): void {
  *
  * // Switch by viem Account object
  * setSigningAccount(provider, privateKeyToAccount('0x...'));
+ *
+ * // Impersonate a whale (signature requests return the stub signature)
+ * setSigningAccount(provider, { impersonate: '0x...', onSign: '0x1234' });
  * ```
  */
 export function setSigningAccount(provider: E2EProvider, account: SigningAccountInput): void {
@@ -92,11 +150,92 @@ export function setSigningAccount(provider: E2EProvider, account: SigningAccount
     p.setSigningAccount(account);
 }
 
+/**
+ * Authorizes an additional account, appended after the existing ones.
+ * The active signer (first account) does not change; emits accountsChanged with the full list.
+ *
+ * Signing requests pick the authorized account matching their `from` / address parameter,
+ * so a dApp can sign with any of the authorized accounts (see setAddressValidation).
+ *
+ * @param provider - The E2E provider instance
+ * @param account - Any input accepted by setSigningAccount
+ *
+ * @throws Error if the account is already authorized
+ *
+ * @example
+ * ```ts
+ * const provider = createE2EProvider();
+ *
+ * addAccount(provider, 1);
+ * await provider.request({ method: 'eth_accounts' }); // [account0, account1]
+ *
+ * // Signs with account 1
+ * await provider.request({ method: 'personal_sign', params: ['0x48656c6c6f', account1] });
+ * ```
+ */
+export function addAccount(provider: E2EProvider, account: SigningAccountInput): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.addAccount !== "function") {
+        throw new Error(
+            "Provider does not support addAccount. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.addAccount(account);
+}
+
+/**
+ * Revokes an authorized account and emits accountsChanged with the remaining ones.
+ * Removing the active signer makes the next account active.
+ *
+ * @param provider - The E2E provider instance
+ * @param address - Address of the account to remove
+ *
+ * @throws Error if the account is not authorized or is the last authorized account
+ */
+export function removeAccount(provider: E2EProvider, address: Address): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.removeAccount !== "function") {
+        throw new Error(
+            "Provider does not support removeAccount. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.removeAccount(address);
+}
+
+/**
+ * Reorders the authorized accounts and emits accountsChanged with the new order.
+ * The first address becomes the active signer, like selecting an account in a wallet.
+ *
+ * @param provider - The E2E provider instance
+ * @param addresses - Every authorized address, exactly once, in the new order
+ *
+ * @throws Error if the list is not a permutation of the authorized accounts
+ *
+ * @example
+ * ```ts
+ * const provider = createE2EProvider();
+ * addAccount(provider, 1);
+ *
+ * // Make account 1 the active signer
+ * reorderAccounts(provider, [account1, account0]);
+ * ```
+ */
+export function reorderAccounts(provider: E2EProvider, addresses: Address[]): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.reorderAccounts !== "function") {
+        throw new Error(
+            "Provider does not support reorderAccounts. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.reorderAccounts(addresses);
+}
+
 /**
  * Sets whether the provider should reject signature requests.
  * When enabled, signing attempts will throw a 4001 "User Rejected Request" error.
  *
- * Affects: personal_sign, eth_sign, eth_signTypedData, eth_signTypedData_v3, eth_signTypedData_v4
+ * Affects: personal_sign, eth_sign, eth_signTypedData, eth_signTypedData_v3, eth_signTypedData_v4,
+ * wallet_signAuthorization
  *
  * @param provider - The E2E provider instance
  * @param reject - Whether to reject signature requests
@@ -126,7 +265,8 @@ export function setRejectSignature(provider: E2EProvider, reject: boolean): void
 }
 
 /**
- * Sets whether the provider should reject transaction requests (eth_sendTransaction).
+ * Sets whether the provider should reject transaction requests
+ * (eth_sendTransaction, eth_signTransaction, wallet_sendCalls).
  * When enabled, transaction attempts will throw a 4001 "User Rejected Request" error.
  *
  * @param provider - The E2E provider instance
@@ -155,3 +295,725 @@ export function setRejectTransaction(provider: E2EProvider, reject: boolean): vo
     }
     p.setRejectTransaction(reject);
 }
+
+/**
+ * Configures whether the provider should reject wallet_addEthereumChain requests, like a user
+ * declining the "Add network" prompt. Rejected requests throw a 4001 error and the chain is
+ * not added.
+ *
+ * @param provider - The E2E provider instance
+ * @param reject - Whether to reject requests to add a chain
+ */
+export function setRejectAddChain(provider: E2EProvider, reject: boolean): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setRejectAddChain !== "function") {
+        throw new Error(
+            "Provider does not support setRejectAddChain. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.setRejectAddChain(reject);
+}
+
+/**
+ * Configures whether the provider should reject permission requests, like a user declining
+ * the "Connect" prompt. While the dApp has no accounts permission (after
+ * wallet_revokePermissions), eth_requestAccounts and wallet_requestPermissions throw a 4001
+ * error and eth_accounts keeps returning [].
+ *
+ * @param provider - The E2E provider instance
+ * @param reject - Whether to reject permission requests
+ */
+export function setRejectPermissions(provider: E2EProvider, reject: boolean): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setRejectPermissions !== "function") {
+        throw new Error(
+            "Provider does not support setRejectPermissions. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.setRejectPermissions(reject);
+}
+
+/**
+ * Configures whether the provider should reject wallet_watchAsset requests, like a user
+ * declining the "Add suggested token" prompt. Rejected requests resolve to false and the
+ * asset is not added.
+ *
+ * @param provider - The E2E provider instance
+ * @param reject - Whether to reject suggested assets
+ */
+export function setRejectWatchAsset(provider: E2EProvider, reject: boolean): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setRejectWatchAsset !== "function") {
+        throw new Error(
+            "Provider does not support setRejectWatchAsset. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.setRejectWatchAsset(reject);
+}
+
+/**
+ * Returns the assets the dApp suggested with wallet_watchAsset, with the account and chain
+ * each one was added to. Suggesting an asset again replaces its entry.
+ *
+ * @param provider - The E2E provider instance
+ * @returns A copy of the watched assets, oldest first
+ *
+ * @example
+ * ```typescript
+ * await page.getByRole("button", { name: "Add USDC to wallet" }).click();
+ * const assets = await page.evaluate(() => window.__e2eTestProvider.getWatchedAssets());
+ * expect(assets[0]?.options.symbol).toBe("USDC");
+ * ```
+ */
+export function getWatchedAssets(provider: E2EProvider): WatchedAsset[] {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.getWatchedAssets !== "function") {
+        throw new Error(
+            "Provider does not support getWatchedAssets. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.getWatchedAssets();
+}
+
+/**
+ * Sets how the provider confirms wallet prompts (transactions and signatures).
+ * In "manual" mode, eth_sendTransaction, eth_signTransaction, personal_sign, eth_sign,
+ * eth_signTypedData* and wallet_signAuthorization stay pending until approveRequest or
+ * rejectRequest is called with their id.
+ *
+ * @param provider - The E2E provider instance
+ * @param mode - "auto" (default) or "manual"
+ *
+ * @example
+ * ```ts
+ * const provider = createE2EProvider();
+ *
+ * setApprovalMode(provider, 'manual');
+ *
+ * // The request stays pending until the test confirms it
+ * const signaturePromise = provider.request({ method: 'personal_sign', params: ['0x48656c6c6f', '0x...'] });
+ *
+ * const [pending] = getPendingRequests(provider);
+ * console.log(pending.decoded.message); // 'Hello'
+ *
+ * approveRequest(provider, pending.id);
+ * const signature = await signaturePromise;
+ * ```
+ */
+export function setApprovalMode(provider: E2EProvider, mode: ApprovalMode): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setApprovalMode !== "function") {
+        throw new Error(
+            "Provider does not support setApprovalMode. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.setApprovalMode(mode);
+}
+
+/**
+ * Makes "auto" mode wait before confirming transaction and/or signature prompts, so wallet
+ * loading states ("Confirm in your wallet…") stay on screen long enough to assert.
+ * While waiting, the prompts are listed by getPendingRequests and can be released early with
+ * approveRequest or rejectRequest. Disconnecting rejects them with 4900.
+ *
+ * @param provider - The E2E provider instance
+ * @param delays - Delay in ms per prompt type, or a function of the pending request; 0 disables it
+ *
+ * @example
+ * ```ts
+ * setApprovalDelay(provider, { transaction: 5000 });
+ *
+ * await page.getByRole('button', { name: 'Swap' }).click();
+ * await expect(page.getByText('Confirm in your wallet')).toBeVisible();
+ *
+ * // Release it without waiting for the delay
+ * const [pending] = getPendingRequests(provider);
+ * approveRequest(provider, pending.id);
+ * ```
+ */
+export function setApprovalDelay(provider: E2EProvider, delays: ApprovalDelays): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setApprovalDelay !== "function") {
+        throw new Error(
+            "Provider does not support setApprovalDelay. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.setApprovalDelay(delays);
+}
+
+/**
+ * Sets how the address named by a signing request is checked against the authorized accounts.
+ * In "strict" mode, personal_sign, eth_sign, eth_signTypedData*, eth_sendTransaction,
+ * eth_signTransaction and wallet_sendCalls reject an address that is not authorized with a 4100
+ * "Unauthorized" error.
+ * In "lenient" mode (default) they sign with the active account instead.
+ *
+ * @param provider - The E2E provider instance
+ * @param mode - "lenient" (default) or "strict"
+ *
+ * @example
+ * ```ts
+ * const provider = createE2EProvider();
+ *
+ * setAddressValidation(provider, 'strict');
+ *
+ * // Throws: ProviderRpcError { code: 4100, message: "Account 0x7099... is not authorized." }
+ * await provider.request({ method: 'personal_sign', params: ['0x48656c6c6f', '0x7099...'] });
+ * ```
+ */
+export function setAddressValidation(provider: E2EProvider, mode: AddressValidation): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setAddressValidation !== "function") {
+        throw new Error(
+            "Provider does not support setAddressValidation. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.setAddressValidation(mode);
+}
+
+/**
+ * Returns the wallet prompts currently waiting for approval, oldest first.
+ *
+ * @param provider - The E2E provider instance
+ * @returns Pending requests with their method, raw params and decoded fields
+ */
+export function getPendingRequests(provider: E2EProvider): PendingRequest[] {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.getPendingRequests !== "function") {
+        throw new Error(
+            "Provider does not support getPendingRequests. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.getPendingRequests();
+}
+
+/**
+ * Approves a pending wallet prompt. The original request continues and is signed/sent.
+ *
+ * @param provider - The E2E provider instance
+ * @param id - Id of the pending request (from getPendingRequests)
+ *
+ * @throws Error if there is no pending request with the given id
+ */
+export function approveRequest(provider: E2EProvider, id: number): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.approveRequest !== "function") {
+        throw new Error(
+            "Provider does not support approveRequest. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.approveRequest(id);
+}
+
+/**
+ * Rejects a pending wallet prompt. The original request throws a ProviderRpcError.
+ *
+ * @param provider - The E2E provider instance
+ * @param id - Id of the pending request (from getPendingRequests)
+ * @param code - Error code to reject with (default: 4001 "User Rejected Request")
+ *
+ * @throws Error if there is no pending request with the given id
+ *
+ * @example
+ * ```ts
+ * const [pending] = getPendingRequests(provider);
+ *
+ * // The pending request throws: ProviderRpcError { code: 4001, message: "User rejected the transaction request." }
+ * rejectRequest(provider, pending.id);
+ * ```
+ */
+export function rejectRequest(provider: E2EProvider, id: number, code?: number): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.rejectRequest !== "function") {
+        throw new Error(
+            "Provider does not support rejectRequest. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.rejectRequest(id, code);
+}
+
+/**
+ * Sets the EIP-5792 capabilities reported by wallet_getCapabilities for a chain.
+ * Capabilities are merged over the default `{ atomic: { status: "unsupported" } }`.
+ *
+ * @param provider - The E2E provider instance
+ * @param chainId - The chain ID the capabilities apply to
+ * @param capabilities - Capabilities object, keyed by capability name
+ *
+ * @example
+ * ```ts
+ * setCapabilities(provider, 1, { paymasterService: { supported: true } });
+ *
+ * await provider.request({ method: 'wallet_getCapabilities', params: [address, ['0x1']] });
+ * // { '0x1': { atomic: { status: 'unsupported' }, paymasterService: { supported: true } } }
+ * ```
+ */
+export function setCapabilities(
+    provider: E2EProvider,
+    chainId: number,
+    capabilities: WalletCapabilities,
+): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setCapabilities !== "function") {
+        throw new Error(
+            "Provider does not support setCapabilities. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.setCapabilities(chainId, capabilities);
+}
+
+/**
+ * Returns every request made to the provider since it was created (or the recording was
+ * cleared), oldest first, with its routing, RPC URL, timing, result or error, account and chain.
+ *
+ * @param provider - The E2E provider instance
+ *
+ * @example
+ * ```ts
+ * const recording = getRecording(provider);
+ * expect(recording.filter((r) => r.method === 'eth_sendTransaction')).toHaveLength(1);
+ * ```
+ */
+export function getRecording(provider: E2EProvider): RecordedRequest[] {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.getRecording !== "function") {
+        throw new Error(
+            "Provider does not support getRecording. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.getRecording();
+}
+
+/**
+ * Clears the recorded requests, e.g. between tests sharing a provider.
+ *
+ * @param provider - The E2E provider instance
+ */
+export function clearRecording(provider: E2EProvider): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.clearRecording !== "function") {
+        throw new Error(
+            "Provider does not support clearRecording. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.clearRecording();
+}
+
+/**
+ * Exports the recorded requests as a HAR-like JSON object, to attach as a test artifact.
+ *
+ * @param provider - The E2E provider instance
+ *
+ * @example
+ * ```ts
+ * // Playwright: attach the provider traffic when a test fails
+ * test.afterEach(async ({ page }, testInfo) => {
+ *   if (testInfo.status === testInfo.expectedStatus) return;
+ *   const recording = await page.evaluate(() => window.__e2eTestProvider.exportRecording());
+ *   await testInfo.attach('walletless-recording.json', {
+ *     body: JSON.stringify(recording, null, 2),
+ *     contentType: 'application/json',
+ *   });
+ * });
+ * ```
+ */
+export function exportRecording(provider: E2EProvider): RecordingExport {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.exportRecording !== "function") {
+        throw new Error(
+            "Provider does not support exportRecording. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.exportRecording();
+}
+
+/**
+ * Returns the read responses captured in fixtures "record" mode, keyed by chain, method and
+ * normalized params. Save them to a JSON file and pass it back as `fixtures.fixture` with
+ * mode "replay" to run the same reads without a node.
+ *
+ * @param provider - The E2E provider instance
+ * @returns A copy of the fixture
+ *
+ * @example
+ * ```typescript
+ * const fixture = await page.evaluate(() => window.__e2eTestProvider.getFixture());
+ * writeFileSync("fixtures/swap.json", JSON.stringify(fixture, null, 2));
+ * ```
+ */
+export function getFixture(provider: E2EProvider): RpcFixture {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.getFixture !== "function") {
+        throw new Error(
+            "Provider does not support getFixture. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.getFixture();
+}
+
+/**
+ * Adds a fault rule that simulates RPC failures for the requests it matches: latency,
+ * an error code, a request that never answers, or a failure on the Nth call only.
+ *
+ * @param provider - The E2E provider instance
+ * @param rule - Which requests to match and how they fail
+ * @returns The rule id to pass to removeFault
+ *
+ * @example
+ * ```typescript
+ * // Flaky node: the first two eth_call requests fail, then it recovers
+ * await page.evaluate(() =>
+ *     window.__e2eTestProvider.addFault({
+ *         method: "eth_call",
+ *         error: { code: -32603, message: "upstream unavailable" },
+ *         times: 2,
+ *     }),
+ * );
+ * ```
+ */
+export function addFault(provider: E2EProvider, rule: FaultRule): number {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.addFault !== "function") {
+        throw new Error(
+            "Provider does not support addFault. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.addFault(rule);
+}
+
+/**
+ * Removes a fault rule added with addFault.
+ *
+ * @param provider - The E2E provider instance
+ * @param id - The id returned by addFault
+ */
+export function removeFault(provider: E2EProvider, id: number): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.removeFault !== "function") {
+        throw new Error(
+            "Provider does not support removeFault. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.removeFault(id);
+}
+
+/**
+ * Removes every fault rule.
+ *
+ * @param provider - The E2E provider instance
+ */
+export function clearFaults(provider: E2EProvider): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.clearFaults !== "function") {
+        throw new Error(
+            "Provider does not support clearFaults. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.clearFaults();
+}
+
+/**
+ * Adds a middleware that sees every request before it is routed. It can answer the request
+ * itself, throw, rewrite the params, or call `next()` and transform the result. Middleware
+ * runs in the order it was added; requests it answers are still recorded.
+ *
+ * @param provider - The E2E provider instance
+ * @param middleware - Receives the request and `next`, returns the result
+ * @returns The middleware id to pass to removeMiddleware
+ *
+ * @example
+ * ```typescript
+ * // Stub an oracle price while everything else still goes to Anvil
+ * addMiddleware(provider, async (request, next) => {
+ *     const [call] = (request.params ?? []) as [{ to?: string }];
+ *     if (request.method === "eth_call" && call?.to === ORACLE) {
+ *         return encodeFunctionResult({ abi, functionName: "latestAnswer", result: 2000n });
+ *     }
+ *     return next();
+ * });
+ * ```
+ */
+export function addMiddleware(provider: E2EProvider, middleware: RequestMiddleware): number {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.addMiddleware !== "function") {
+        throw new Error(
+            "Provider does not support addMiddleware. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.addMiddleware(middleware);
+}
+
+/**
+ * Removes a middleware added with addMiddleware.
+ *
+ * @param provider - The E2E provider instance
+ * @param id - The id returned by addMiddleware
+ */
+export function removeMiddleware(provider: E2EProvider, id: number): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.removeMiddleware !== "function") {
+        throw new Error(
+            "Provider does not support removeMiddleware. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.removeMiddleware(id);
+}
+
+/**
+ * Removes every middleware.
+ *
+ * @param provider - The E2E provider instance
+ */
+export function clearMiddleware(provider: E2EProvider): void {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.clearMiddleware !== "function") {
+        throw new Error(
+            "Provider does not support clearMiddleware. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    p.clearMiddleware();
+}
+
+/**
+ * Makes calls to one contract function answer with a fixed value or revert, while every other
+ * call still reaches the chain. Intercepts matching eth_call requests, and eth_estimateGas too
+ * with `estimateGas: true`. Calls match by address and function, or by the exact arguments
+ * when `args` is given.
+ *
+ * @param provider - The E2E provider instance
+ * @param mock - The function to mock and its return value or revert
+ * @returns The middleware id to pass to removeMiddleware
+ *
+ * @example
+ * ```typescript
+ * // Price feed
+ * mockContractCall(provider, {
+ *     address: FEED,
+ *     abi: aggregatorAbi,
+ *     functionName: "latestAnswer",
+ *     returns: 2000_00000000n,
+ * });
+ *
+ * // Allowlist check failing with a custom error
+ * mockContractCall(provider, {
+ *     address: SALE,
+ *     abi: saleAbi,
+ *     functionName: "mint",
+ *     revert: { errorName: "NotAllowlisted", args: [user] },
+ *     estimateGas: true,
+ * });
+ * ```
+ */
+export function mockContractCall(provider: E2EProvider, mock: ContractCallMock): number {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.mockContractCall !== "function") {
+        throw new Error(
+            "Provider does not support mockContractCall. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.mockContractCall(mock);
+}
+
+/**
+ * Takes an Anvil snapshot of the current chain state (evm_snapshot).
+ * Cheatcodes are sent to the RPC URL of the provider's current chain, so they follow chain switches.
+ *
+ * @param provider - The E2E provider instance
+ * @returns Snapshot id to pass to revert
+ *
+ * @example
+ * ```ts
+ * const id = await snapshot(provider);
+ * // ...run a test that changes chain state...
+ * await revert(provider, id);
+ * ```
+ */
+export async function snapshot(provider: E2EProvider): Promise<Hex> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.snapshot !== "function") {
+        throw new Error(
+            "Provider does not support snapshot. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.snapshot();
+}
+
+/**
+ * Reverts the current chain to a snapshot taken with snapshot (evm_revert).
+ * Anvil deletes the snapshot once reverted; take a new one to revert again.
+ *
+ * @param provider - The E2E provider instance
+ * @param snapshotId - Id returned by snapshot
+ * @returns Whether the revert succeeded
+ */
+export async function revert(provider: E2EProvider, snapshotId: Hex): Promise<boolean> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.revert !== "function") {
+        throw new Error(
+            "Provider does not support revert. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.revert(snapshotId);
+}
+
+/**
+ * Mines blocks on the current chain (anvil_mine).
+ *
+ * @param provider - The E2E provider instance
+ * @param blocks - Number of blocks to mine (default: 1)
+ * @param interval - Seconds between the mined blocks' timestamps
+ */
+export async function mine(
+    provider: E2EProvider,
+    blocks?: number,
+    interval?: number,
+): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.mine !== "function") {
+        throw new Error(
+            "Provider does not support mine. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.mine(blocks, interval);
+}
+
+/**
+ * Sets the native balance of an address on the current chain (anvil_setBalance).
+ *
+ * @param provider - The E2E provider instance
+ * @param address - Address to fund
+ * @param wei - New balance in wei
+ *
+ * @example
+ * ```ts
+ * await setBalance(provider, '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', parseEther('100'));
+ * ```
+ */
+export async function setBalance(
+    provider: E2EProvider,
+    address: Address,
+    wei: bigint | number,
+): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setBalance !== "function") {
+        throw new Error(
+            "Provider does not support setBalance. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.setBalance(address, wei);
+}
+
+/**
+ * Sets the runtime bytecode of an address on the current chain (anvil_setCode).
+ *
+ * @param provider - The E2E provider instance
+ * @param address - Address to set the code of
+ * @param bytecode - Runtime bytecode
+ */
+export async function setCode(
+    provider: E2EProvider,
+    address: Address,
+    bytecode: Hex,
+): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setCode !== "function") {
+        throw new Error(
+            "Provider does not support setCode. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.setCode(address, bytecode);
+}
+
+/**
+ * Writes a storage slot of a contract on the current chain (anvil_setStorageAt).
+ *
+ * @param provider - The E2E provider instance
+ * @param address - Contract address
+ * @param slot - Storage slot
+ * @param value - New value (left-padded to 32 bytes)
+ */
+export async function setStorageAt(
+    provider: E2EProvider,
+    address: Address,
+    slot: Hex,
+    value: Hex,
+): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setStorageAt !== "function") {
+        throw new Error(
+            "Provider does not support setStorageAt. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.setStorageAt(address, slot, value);
+}
+
+/**
+ * Sets the timestamp of the next block on the current chain (evm_setNextBlockTimestamp).
+ *
+ * @param provider - The E2E provider instance
+ * @param timestamp - Unix timestamp in seconds
+ */
+export async function setNextBlockTimestamp(
+    provider: E2EProvider,
+    timestamp: bigint | number,
+): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.setNextBlockTimestamp !== "function") {
+        throw new Error(
+            "Provider does not support setNextBlockTimestamp. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.setNextBlockTimestamp(timestamp);
+}
+
+/**
+ * Moves the current chain's clock forward (evm_increaseTime).
+ * The new time applies from the next mined block.
+ *
+ * @param provider - The E2E provider instance
+ * @param seconds - Seconds to add
+ */
+export async function increaseTime(provider: E2EProvider, seconds: number): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.increaseTime !== "function") {
+        throw new Error(
+            "Provider does not support increaseTime. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.increaseTime(seconds);
+}
+
+/**
+ * Lets the current chain accept unsigned transactions from an address (anvil_impersonateAccount).
+ *
+ * @param provider - The E2E provider instance
+ * @param address - Address to impersonate
+ */
+export async function impersonateAccount(provider: E2EProvider, address: Address): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.impersonateAccount !== "function") {
+        throw new Error(
+            "Provider does not support impersonateAccount. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.impersonateAccount(address);
+}
+
+/**
+ * Stops impersonating an address on the current chain (anvil_stopImpersonatingAccount).
+ *
+ * @param provider - The E2E provider instance
+ * @param address - Address to stop impersonating
+ */
+export async function stopImpersonatingAccount(
+    provider: E2EProvider,
+    address: Address,
+): Promise<void> {
+    const p = provider as E2EProviderWithInternal;
+    if (typeof p.stopImpersonatingAccount !== "function") {
+        throw new Error(
+            "Provider does not support stopImpersonatingAccount. Make sure you're using a provider created with createE2EProvider.",
+        );
+    }
+    return p.stopImpersonatingAccount(address);
+}
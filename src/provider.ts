@@ -1,29 +1,89 @@
-import type { Account, Address, Chain, Hex } from "viem";
+import type {
+    Account,
+    Address,
+    Call,
+    Chain,
+    Hex,
+    JsonRpcAccount,
+    RpcAuthorization,
+    Transport,
+    TransactionRequest as ViemTransactionRequest,
+} from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
 import type { PrivateKeyAccount } from "viem/accounts";
-import { createWalletClient, http } from "viem";
+import {
+    createPublicClient,
+    createWalletClient,
+    hexToNumber,
+    hexToString,
+    http,
+    isAddressEqual,
+    isHex,
+    numberToHex,
+    pad,
+} from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 
+import type { AnvilAccount } from "./constants.js";
+import type { ActiveFault } from "./faults.js";
 import type {
+    AddChainPolicy,
+    AddEthereumChainParameter,
+    AddressValidation,
+    ApprovalDelays,
+    ApprovalMode,
+    CallReceipt,
+    CallsStatus,
     CompatibleChain,
+    ContractCallMock,
     E2EProvider,
     E2EProviderConfig,
+    FaultRule,
+    FixtureMode,
+    ImpersonatedAccountInput,
     JsonRpcRequest,
     JsonRpcResponse,
+    PendingRequest,
     ProviderEvents,
     ProviderState,
+    RecordedRequest,
+    RecordingExport,
+    RequestArguments,
+    RequestMiddleware,
+    RequestRoute,
+    RpcFixture,
+    SendCallsParams,
+    SignAuthorizationParams,
+    SmartAccountConfig,
     TransactionRequest,
     TypedData,
+    WalletCapabilities,
+    WalletPermission,
+    WatchAssetParameter,
+    WatchedAsset,
 } from "./types.js";
+import { parseAddChainParameter, toCompatibleChain } from "./add-chain.js";
 import {
     ANVIL_ACCOUNTS,
-    DEFAULT_ANVIL_PRIVATE_KEY,
+    CALLS_STATUS_VERSION,
+    DEFAULT_ANVIL_MNEMONIC,
     DEFAULT_ANVIL_RPC_URL,
     DEFAULT_CHAIN,
+    deriveAnvilAccounts,
     isReadMethod,
     isWalletMethod,
     isWriteMethod,
 } from "./constants.js";
+import { contractCallMiddleware } from "./contract-mocks.js";
+import { isJsonRpcErrorResponse, markUpstreamError, toProviderRpcError } from "./errors.js";
+import { applyFault, findFault, releaseFault, toActiveFault } from "./faults.js";
+import { fixtureKey, recordFixture, replayFixture } from "./fixtures.js";
+import { parsePermissionsParameter, toAccountsPermission } from "./permissions.js";
+import { toRecordedError, toRecordingExport } from "./recording.js";
+import { assertLocalOwner, defaultSmartAccount, sendUserOperation } from "./smart-account.js";
+import { memoryTransport, toTransport } from "./transport.js";
 import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+import { isSameAsset, parseWatchAssetParameter, verifyTokenMetadata } from "./watch-asset.js";
 
 type EventListeners = {
     [K in keyof ProviderEvents]: Set<ProviderEvents[K]>;
@@ -31,12 +91,14 @@ type EventListeners = {
 
 /**
  * Input types for setSigningAccount:
- * - number (0-9): Index into ANVIL_ACCOUNTS array
- * - Address (42 chars): Ethereum address to lookup in ANVIL_ACCOUNTS
+ * - number: Index into the provider's Anvil accounts (ANVIL_ACCOUNTS, 0-9, unless a
+ *   mnemonic or accountsCount is configured)
+ * - Address (42 chars): Ethereum address to lookup in the provider's Anvil accounts
  * - Hex (66 chars): Raw private key
- * - Account: viem Account object (for impersonation or custom accounts)
+ * - Account: viem Account object (for custom accounts)
+ * - { impersonate: Address }: Anvil-impersonated account without a private key
  */
-export type SigningAccountInput = number | Address | Hex | Account;
+export type SigningAccountInput = number | Address | Hex | Account | ImpersonatedAccountInput;
 
 /**
  * Type guard: check if input is a viem Account object
@@ -46,25 +108,49 @@ function isAccount(input: SigningAccountInput): input is Account {
 }
 
 /**
- * Resolve various account input formats to an Account object
+ * Type guard: check if input requests an impersonated account
+ */
+function isImpersonation(input: SigningAccountInput): input is ImpersonatedAccountInput {
+    return typeof input === "object" && input !== null && "impersonate" in input;
+}
+
+/**
+ * Resolve various account input formats to an Account object.
+ * Indices and addresses are looked up in the given Anvil accounts, which are derived from the
+ * provider's mnemonic when it configures one.
  */
-function resolveAccount(input: SigningAccountInput): PrivateKeyAccount | Account {
-    // Case 1: viem Account object — use directly (for impersonation/custom accounts)
+function resolveAccount(
+    input: SigningAccountInput,
+    anvilAccounts: readonly AnvilAccount[],
+): PrivateKeyAccount | Account {
+    // Case 1: viem Account object — use directly (for custom accounts)
     if (isAccount(input)) {
         return input;
     }
 
-    // Case 2: Numeric index (0-9)
+    // Case 2: Impersonation — a JSON-RPC account makes viem send unsigned eth_sendTransaction
+    if (isImpersonation(input)) {
+        const account: JsonRpcAccount = { address: input.impersonate, type: "json-rpc" };
+        return account;
+    }
+
+    // Case 3: Numeric index into the Anvil accounts
+    const maxIndex = anvilAccounts.length - 1;
+    const isDerived = anvilAccounts !== ANVIL_ACCOUNTS;
     if (typeof input === "number") {
-        if (input < 0 || input > 9 || !Number.isInteger(input)) {
-            throw new Error(`Invalid Anvil account index: ${input}. Must be 0-9.`);
+        if (input < 0 || input > maxIndex || !Number.isInteger(input)) {
+            throw new Error(
+                isDerived
+                    ? `Account index ${input} is not one of the provider's derived accounts (0-${maxIndex}).`
+                    : `Invalid Anvil account index: ${input}. Must be 0-${maxIndex}.`,
+            );
         }
-        // Safe to use ! since we validated index is 0-9 and ANVIL_ACCOUNTS has exactly 10 elements
-        const anvilAccount = ANVIL_ACCOUNTS[input]!;
+        // Safe to use ! since we validated the index is within anvilAccounts
+        const anvilAccount = anvilAccounts[input]!;
         return privateKeyToAccount(anvilAccount.privateKey);
     }
 
-    // Case 3: String — distinguish by length (address=42, privateKey=66)
+    // Case 4: String — distinguish by length (address=42, privateKey=66)
     const inputStr = input as string;
 
     if (inputStr.length === 66) {
@@ -72,24 +158,219 @@ function resolveAccount(input: SigningAccountInput): PrivateKeyAccount | Account
     }
 
     if (inputStr.length === 42) {
-        const match = ANVIL_ACCOUNTS.find(
-            (a) => a.address.toLowerCase() === inputStr.toLowerCase(),
-        );
+        const match = anvilAccounts.find((a) => a.address.toLowerCase() === inputStr.toLowerCase());
         if (!match) {
-            throw new Error(`Address ${inputStr} is not a default Anvil account.`);
+            throw new Error(
+                isDerived
+                    ? `Address ${inputStr} is not one of the provider's derived accounts.`
+                    : `Address ${inputStr} is not a default Anvil account.`,
+            );
         }
         return privateKeyToAccount(match.privateKey);
     }
 
     throw new Error(
-        `Invalid input: expected index (0-9), address (42 chars), private key (66 chars), or Account object.`,
+        `Invalid input: expected index (0-${maxIndex}), address (42 chars), private key (66 chars), or Account object.`,
     );
 }
 
+/**
+ * Parse typed data that may arrive either as a JSON string or as an object
+ */
+function parseTypedData(typedDataJson: string | TypedData): TypedData {
+    return typeof typedDataJson === "string"
+        ? (JSON.parse(typedDataJson) as TypedData)
+        : typedDataJson;
+}
+
+/**
+ * Decode a hex-encoded message to UTF-8 (non-hex messages are returned as-is)
+ */
+function decodeMessage(message: string): string {
+    return isHex(message) ? hexToString(message) : message;
+}
+
+/**
+ * viem transaction types by EIP-2718 type (blob transactions are not supported)
+ */
+const TRANSACTION_TYPES = {
+    "0x0": "legacy",
+    "0x1": "eip2930",
+    "0x2": "eip1559",
+    "0x4": "eip7702",
+} as const;
+
+type ViemTransactionType = (typeof TRANSACTION_TYPES)[keyof typeof TRANSACTION_TYPES];
+
+/**
+ * Get the viem transaction type for a JSON-RPC type, or undefined if it is not supported
+ */
+function toViemTransactionType(type: Hex): ViemTransactionType | undefined {
+    return TRANSACTION_TYPES[numberToHex(hexToNumber(type)) as keyof typeof TRANSACTION_TYPES];
+}
+
+/**
+ * Convert hex-encoded JSON-RPC transaction params to a viem transaction request
+ */
+function toViemTransaction(txParams: TransactionRequest): ViemTransactionRequest {
+    const request = {
+        type: txParams.type ? toViemTransactionType(txParams.type) : undefined,
+        to: txParams.to,
+        value: txParams.value ? BigInt(txParams.value) : undefined,
+        data: txParams.data,
+        gas: txParams.gas ? BigInt(txParams.gas) : undefined,
+        nonce: txParams.nonce ? parseInt(txParams.nonce, 16) : undefined,
+        accessList: txParams.accessList,
+        authorizationList: txParams.authorizationList?.map((authorization) => ({
+            address: authorization.address,
+            chainId: hexToNumber(authorization.chainId),
+            nonce: hexToNumber(authorization.nonce),
+            r: authorization.r,
+            s: authorization.s,
+            yParity: hexToNumber(authorization.yParity),
+        })),
+        // Gas pricing - only one strategy should be used
+        ...(txParams.maxFeePerGas
+            ? {
+                  maxFeePerGas: BigInt(txParams.maxFeePerGas),
+                  maxPriorityFeePerGas: txParams.maxPriorityFeePerGas
+                      ? BigInt(txParams.maxPriorityFeePerGas)
+                      : undefined,
+              }
+            : txParams.gasPrice
+              ? { gasPrice: BigInt(txParams.gasPrice) }
+              : {}),
+    };
+    // viem checks the fields against `type` when preparing the transaction
+    return request as ViemTransactionRequest;
+}
+
+/**
+ * Build the decoded view of a wallet prompt for the pending queue
+ */
+function decodePendingParams(method: string, params: unknown[]): PendingRequest["decoded"] {
+    switch (method) {
+        case "eth_sendTransaction":
+        case "eth_signTransaction": {
+            const transaction = params[0] as TransactionRequest;
+            return { address: transaction.from, transaction };
+        }
+        case "personal_sign":
+            return { address: params[1] as Address, message: decodeMessage(params[0] as string) };
+        case "eth_sign":
+            return { address: params[0] as Address, message: decodeMessage(params[1] as string) };
+        case "eth_signTypedData":
+        case "eth_signTypedData_v3":
+        case "eth_signTypedData_v4":
+            return {
+                address: params[0] as Address,
+                typedData: parseTypedData(params[1] as string | TypedData),
+            };
+        case "wallet_sendCalls": {
+            const batch = params[0] as SendCallsParams;
+            return { address: batch.from, calls: batch.calls };
+        }
+        case "wallet_signAuthorization": {
+            const authorization = params[0] as SignAuthorizationParams;
+            return { address: authorization.from, authorization };
+        }
+        default:
+            return {};
+    }
+}
+
+/**
+ * Throw EIP-5792 5700 if a non-optional requested capability is not supported
+ */
+function assertCapabilitiesSupported(
+    requested: WalletCapabilities | undefined,
+    supported: WalletCapabilities,
+): void {
+    for (const [name, value] of Object.entries(requested ?? {})) {
+        const optional = (value as { optional?: boolean } | undefined)?.optional === true;
+        if (!optional && !(name in supported)) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.UnsupportedNonOptionalCapability,
+                `Capability ${name} is not supported.`,
+            );
+        }
+    }
+}
+
+/**
+ * Batch of calls sent through wallet_sendCalls
+ */
+type CallsBatch = {
+    chainId: number;
+    hashes: Hex[];
+    atomic: boolean;
+    /** A call could not be sent after earlier calls were, so the batch partially failed */
+    failed: boolean;
+};
+
+/**
+ * Authorized account together with its impersonation settings (if impersonated)
+ */
+type AuthorizedAccount = {
+    account: PrivateKeyAccount | Account;
+    impersonation: ImpersonatedAccountInput | undefined;
+};
+
+/**
+ * Convert a transaction or batch call to a UserOperation call, which can't deploy contracts
+ */
+function toSmartAccountCall({ to, data, value }: { to?: Address; data?: Hex; value?: Hex }): Call {
+    if (!to) {
+        throw new ProviderRpcError(
+            ProviderErrorCode.InvalidParams,
+            "Contract deployment is not supported in smart account mode.",
+        );
+    }
+    return { to, data, value: value ? BigInt(value) : undefined };
+}
+
+/**
+ * Wallet prompts a smart account can handle, with their prompt type
+ */
+const SMART_ACCOUNT_PROMPTS: Partial<Record<string, PendingRequest["type"]>> = {
+    eth_sendTransaction: "transaction",
+    wallet_sendCalls: "transaction",
+    personal_sign: "signature",
+    eth_sign: "signature",
+    eth_signTypedData: "signature",
+    eth_signTypedData_v3: "signature",
+    eth_signTypedData_v4: "signature",
+};
+
+/**
+ * Methods a disconnected dApp can still call: wallet state queries, and the requests that
+ * connect it again
+ */
+const DISCONNECTED_METHODS = [
+    "eth_accounts",
+    "eth_chainId",
+    "net_version",
+    "eth_requestAccounts",
+    "wallet_requestPermissions",
+    "wallet_getPermissions",
+];
+
+/**
+ * Pending request together with the callbacks that settle it
+ */
+type PendingEntry = {
+    request: PendingRequest;
+    resolve: () => void;
+    reject: (error: ProviderRpcError) => void;
+    /** Timer confirming a delayed prompt in "auto" mode */
+    timer?: ReturnType<typeof setTimeout>;
+};
+
 /**
  * Internal state that can be mutated by helper functions like setSigningAccount
  */
 interface InternalState {
+    accounts: AuthorizedAccount[];
     account: PrivateKeyAccount | Account;
     walletClient: ReturnType<typeof createWalletClient>;
     chains: CompatibleChain[];
@@ -98,6 +379,31 @@ interface InternalState {
     rpcUrls: Record<number, string>;
     rejectSignature: boolean;
     rejectTransaction: boolean;
+    rejectAddChain: boolean;
+    rejectPermissions: boolean;
+    /** When the dApp was granted eth_accounts; undefined once revoked */
+    permissionDate: number | undefined;
+    /** Set by disconnect until the dApp requests accounts again or reconnect is called */
+    disconnected: boolean;
+    disconnectedChains: Set<number>;
+    rejectWatchAsset: boolean;
+    watchedAssets: WatchedAsset[];
+    addChainPolicy: AddChainPolicy;
+    approvalMode: ApprovalMode;
+    approvalDelay: ApprovalDelays;
+    addressValidation: AddressValidation;
+    pendingRequests: Map<number, PendingEntry>;
+    impersonation: ImpersonatedAccountInput | undefined;
+    capabilities: Record<number, WalletCapabilities>;
+    callsBatches: Map<string, CallsBatch>;
+    smartAccount: SmartAccountConfig | undefined;
+    smartAccounts: Map<string, Promise<SmartAccount>>;
+    record: boolean;
+    recording: RecordedRequest[];
+    fixtureMode: FixtureMode | undefined;
+    fixture: RpcFixture;
+    faults: ActiveFault[];
+    middleware: { id: number; middleware: RequestMiddleware }[];
 }
 
 /**
@@ -111,15 +417,57 @@ export interface E2EProviderWithInternal extends E2EProvider {
         currentChain: CompatibleChain;
         rpcUrl: string;
         state: ProviderState;
+        anvilAccounts: readonly AnvilAccount[];
         rejectSignature: boolean;
         rejectTransaction: boolean;
+        approvalMode: ApprovalMode;
+        addressValidation: AddressValidation;
+        capabilities: Record<number, WalletCapabilities>;
+        impersonation: ImpersonatedAccountInput | undefined;
     };
     // Control methods (callable from browser context)
     setSigningAccount(account: SigningAccountInput): void;
+    addAccount(account: SigningAccountInput): void;
+    removeAccount(address: Address): void;
+    reorderAccounts(addresses: Address[]): void;
     setRejectSignature(reject: boolean): void;
     setRejectTransaction(reject: boolean): void;
+    setRejectAddChain(reject: boolean): void;
+    setRejectPermissions(reject: boolean): void;
+    setRejectWatchAsset(reject: boolean): void;
+    getWatchedAssets(): WatchedAsset[];
+    setApprovalMode(mode: ApprovalMode): void;
+    setApprovalDelay(delays: ApprovalDelays): void;
+    setAddressValidation(mode: AddressValidation): void;
+    getPendingRequests(): PendingRequest[];
+    approveRequest(id: number): void;
+    rejectRequest(id: number, code?: number): void;
+    setCapabilities(chainId: number, capabilities: WalletCapabilities): void;
+    getRecording(): RecordedRequest[];
+    clearRecording(): void;
+    exportRecording(): RecordingExport;
+    getFixture(): RpcFixture;
+    addFault(rule: FaultRule): number;
+    removeFault(id: number): void;
+    clearFaults(): void;
+    addMiddleware(middleware: RequestMiddleware): number;
+    removeMiddleware(id: number): void;
+    clearMiddleware(): void;
+    mockContractCall(mock: ContractCallMock): number;
     setChain(chainId: number): void;
-    disconnect(): void;
+    disconnect(chainId?: number): void;
+    reconnect(chainId?: number): void;
+    // Anvil cheatcodes (sent to the current chain's RPC URL)
+    snapshot(): Promise<Hex>;
+    revert(snapshotId: Hex): Promise<boolean>;
+    mine(blocks?: number, interval?: number): Promise<void>;
+    setBalance(address: Address, wei: bigint | number): Promise<void>;
+    setCode(address: Address, bytecode: Hex): Promise<void>;
+    setStorageAt(address: Address, slot: Hex, value: Hex): Promise<void>;
+    setNextBlockTimestamp(timestamp: bigint | number): Promise<void>;
+    increaseTime(seconds: number): Promise<void>;
+    impersonateAccount(address: Address): Promise<void>;
+    stopImpersonatingAccount(address: Address): Promise<void>;
 }
 
 /**
@@ -151,7 +499,24 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
     const {
         chains: chainsConfig,
         rpcUrls: rpcUrlsConfig = {},
-        account: accountConfig = DEFAULT_ANVIL_PRIVATE_KEY,
+        transport: transportConfig = {},
+        backend = "rpc",
+        addChainPolicy = "override",
+        verifyWatchedAssets = false,
+        autoAuthorize = true,
+        account: accountConfig,
+        mnemonic,
+        accountsCount,
+        derivationPath,
+        approvalMode = "auto",
+        approvalDelay = {},
+        addressValidation = "lenient",
+        capabilities: capabilitiesConfig = {},
+        smartAccount: smartAccountConfig,
+        record = false,
+        fixtures,
+        faults = [],
+        middleware = [],
         debug = false,
     } = config;
 
@@ -163,41 +528,121 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
     // First chain is the default
     const initialChain = supportedChains[0] ?? DEFAULT_CHAIN;
 
+    // Chains added with wallet_addEthereumChain may bring their own RPC URL
+    const rpcUrls: Record<number, string> = { ...rpcUrlsConfig };
+
     /**
      * Get RPC URL for a chain, falling back to default Anvil URL
      */
     function getRpcUrl(chainId: number): string {
-        return rpcUrlsConfig[chainId] ?? DEFAULT_ANVIL_RPC_URL;
+        return rpcUrls[chainId] ?? DEFAULT_ANVIL_RPC_URL;
+    }
+
+    /**
+     * Get the transport for a chain, falling back to HTTP on its RPC URL
+     */
+    function getTransport(chainId: number): Transport {
+        return transports[chainId] ?? http(getRpcUrl(chainId));
     }
 
     // Get initial RPC URL for the first chain
     const initialRpcUrl = getRpcUrl(initialChain.id);
 
     let requestId = 0;
-
-    // Create account from private key or use provided account
+    let pendingRequestId = 0;
+    let callsBatchId = 0;
+    let faultId = 0;
+    let middlewareId = 0;
+
+    // Anvil accounts used for index/address lookups (only derived when customized)
+    const anvilAccounts: readonly AnvilAccount[] =
+        mnemonic === undefined && accountsCount === undefined && derivationPath === undefined
+            ? ANVIL_ACCOUNTS
+            : deriveAnvilAccounts(
+                  mnemonic ?? DEFAULT_ANVIL_MNEMONIC,
+                  accountsCount,
+                  derivationPath,
+              );
+
+    // Create account from private key or use provided account (default: first Anvil account)
     const initialAccount: PrivateKeyAccount | Account =
-        typeof accountConfig === "string"
-            ? privateKeyToAccount(accountConfig as Hex)
-            : accountConfig;
+        accountConfig === undefined
+            ? privateKeyToAccount(anvilAccounts[0]!.privateKey)
+            : typeof accountConfig === "string"
+              ? privateKeyToAccount(accountConfig as Hex)
+              : accountConfig;
+
+    // EOA that submits UserOperations in smart account mode (default: the owner)
+    const bundlerAccount: Account | undefined =
+        typeof smartAccountConfig?.bundler === "string"
+            ? privateKeyToAccount(smartAccountConfig.bundler)
+            : smartAccountConfig?.bundler;
+
+    // Chains without a configured transport get their own backend transport, if one is set
+    const backendAccounts = [
+        ...new Set([initialAccount.address, ...anvilAccounts.map((a) => a.address)]),
+    ];
+    const createBackendTransport = backend === "memory" ? memoryTransport : backend;
+    const configuredTransports: Record<number, Transport> = Object.fromEntries(
+        Object.entries(transportConfig).map(([chainId, transport]) => [
+            chainId,
+            toTransport(transport),
+        ]),
+    );
+    const transports: Record<number, Transport> =
+        createBackendTransport === "rpc"
+            ? configuredTransports
+            : {
+                  ...Object.fromEntries(
+                      supportedChains.map((chain) => [
+                          chain.id,
+                          createBackendTransport({ chainId: chain.id, accounts: backendAccounts }),
+                      ]),
+                  ),
+                  ...configuredTransports,
+              };
 
     // Create wallet client for signing operations with explicit account
     const initialWalletClient = createWalletClient({
         account: initialAccount,
         chain: initialChain as Chain,
-        transport: http(initialRpcUrl),
+        transport: getTransport(initialChain.id),
     });
 
     // Internal state that can be mutated by setSigningAccount and setChain
     const internal: InternalState = {
+        accounts: [{ account: initialAccount, impersonation: undefined }],
         account: initialAccount,
         walletClient: initialWalletClient,
-        chains: supportedChains,
+        chains: [...supportedChains],
         currentChain: initialChain,
         rpcUrl: initialRpcUrl,
-        rpcUrls: rpcUrlsConfig,
+        rpcUrls,
         rejectSignature: false,
         rejectTransaction: false,
+        rejectAddChain: false,
+        rejectPermissions: false,
+        permissionDate: autoAuthorize ? Date.now() : undefined,
+        disconnected: false,
+        disconnectedChains: new Set(),
+        rejectWatchAsset: false,
+        watchedAssets: [],
+        addChainPolicy,
+        approvalMode,
+        approvalDelay: { ...approvalDelay },
+        addressValidation,
+        pendingRequests: new Map(),
+        impersonation: undefined,
+        capabilities: { ...capabilitiesConfig },
+        callsBatches: new Map(),
+        smartAccount: smartAccountConfig,
+        smartAccounts: new Map(),
+        record,
+        recording: [],
+        fixtureMode: fixtures?.mode,
+        fixture: { ...fixtures?.fixture },
+        faults: faults.map((rule) => toActiveFault(++faultId, rule)),
+        middleware: middleware.map((handler) => ({ id: ++middlewareId, middleware: handler })),
     };
 
     const state: ProviderState = {
@@ -236,56 +681,610 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
         } else {
             console.log(prefix, message);
         }
-    }
+    }
+
+    function emit<K extends keyof ProviderEvents>(
+        event: K,
+        ...args: Parameters<ProviderEvents[K]>
+    ): void {
+        listeners[event].forEach((listener) => {
+            // @ts-expect-error - TypeScript can't properly infer the listener type here
+            listener(...args);
+        });
+    }
+
+    /**
+     * Send a JSON-RPC request to a chain's RPC URL (the current chain by default)
+     */
+    async function sendJsonRpc<T>(
+        method: string,
+        params?: unknown[],
+        chainId: number = internal.currentChain.id,
+    ): Promise<T> {
+        const rpcRequest: JsonRpcRequest = {
+            jsonrpc: "2.0",
+            method,
+            params,
+            id: requestId,
+        };
+
+        const transport = transports[chainId];
+        if (transport) {
+            return sendThroughTransport<T>(transport, rpcRequest, chainId);
+        }
+
+        const rpcUrl = getRpcUrl(chainId);
+        log(`${method} -> ${rpcUrl}`, rpcRequest);
+
+        const response = await fetch(rpcUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(rpcRequest),
+        });
+
+        const data: JsonRpcResponse<T> = (await response.json()) as JsonRpcResponse<T>;
+
+        log(`${method} <- ${rpcUrl}`, data);
+
+        if (data.error) {
+            throw markUpstreamError(
+                new ProviderRpcError(data.error.code, data.error.message, data.error.data),
+            );
+        }
+
+        return data.result as T;
+    }
+
+    /**
+     * Send a JSON-RPC request through the chain's configured transport, failing like the
+     * fetch path does (a ProviderRpcError with the upstream code, message and data)
+     */
+    async function sendThroughTransport<T>(
+        transport: Transport,
+        { method, params }: JsonRpcRequest,
+        chainId: number,
+    ): Promise<T> {
+        const chain = internal.chains.find((c) => c.id === chainId) ?? internal.currentChain;
+        const { config, request } = transport({
+            chain: chain as Chain,
+            retryCount: 0,
+        });
+
+        log(`${method} -> ${config.name}`, params);
+
+        try {
+            const result = (await request({ method, params })) as T;
+            log(`${method} <- ${config.name}`, result);
+            return result;
+        } catch (caught) {
+            // viem wraps JSON-RPC errors; surface the upstream one
+            const error = toProviderRpcError(caught);
+            if (isJsonRpcErrorResponse(caught)) markUpstreamError(error);
+            log(`${method} <- ${config.name}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Handle read methods by sending to Anvil RPC, or by answering from the fixture
+     */
+    async function handleReadMethod<T>(method: string, params?: unknown[]): Promise<T> {
+        if (internal.fixtureMode === undefined) {
+            return sendJsonRpc<T>(method, params);
+        }
+
+        const key = fixtureKey(state.chainId, method, params);
+        if (internal.fixtureMode === "replay") {
+            log(`${method} <- fixture`, key);
+            return replayFixture<T>(internal.fixture, key);
+        }
+
+        try {
+            const result = await sendJsonRpc<T>(method, params);
+            recordFixture(internal.fixture, key, { result });
+            return result;
+        } catch (error) {
+            recordFixture(internal.fixture, key, { error });
+            throw error;
+        }
+    }
+
+    /**
+     * Wait for the test to confirm a wallet prompt.
+     * Resolves immediately in "auto" mode, or once the prompt's approval delay has passed;
+     * in "manual" mode the request is queued until approveRequest or rejectRequest is
+     * called with its id. Delayed requests are queued too, so they can be settled early.
+     */
+    function waitForApproval(
+        type: PendingRequest["type"],
+        method: string,
+        params: unknown[] = [],
+    ): Promise<void> {
+        const delay = internal.approvalDelay[type];
+        if (internal.approvalMode === "auto" && !delay) return Promise.resolve();
+
+        const request: PendingRequest = {
+            id: ++pendingRequestId,
+            type,
+            method,
+            params,
+            decoded: decodePendingParams(method, params),
+        };
+
+        const delayMs = typeof delay === "function" ? delay(request) : (delay ?? 0);
+        if (internal.approvalMode === "auto" && delayMs <= 0) return Promise.resolve();
+
+        log("pending", request);
+
+        return new Promise<void>((resolve, reject) => {
+            const entry: PendingEntry = { request, resolve, reject };
+            if (internal.approvalMode === "auto") {
+                entry.timer = setTimeout(() => takePendingRequest(request.id).resolve(), delayMs);
+            }
+            internal.pendingRequests.set(request.id, entry);
+        });
+    }
+
+    /**
+     * Reject a prompt approved after the test switched chains, instead of sending it to the
+     * chain that is active now
+     */
+    function assertSameChain(chainId: number): void {
+        if (state.chainId !== chainId) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.ChainDisconnected,
+                `The active chain changed from ${chainId} to ${state.chainId} while the request was pending.`,
+            );
+        }
+    }
+
+    /**
+     * Remove a pending request from the queue, throwing if it does not exist
+     */
+    function takePendingRequest(id: number): PendingEntry {
+        const entry = internal.pendingRequests.get(id);
+        if (!entry) {
+            throw new Error(`No pending request with id ${id}.`);
+        }
+        internal.pendingRequests.delete(id);
+        clearTimeout(entry.timer);
+        return entry;
+    }
+
+    /**
+     * Get the authorized account that should sign for an address.
+     * Falls back to the active account when the request does not name one, or names an
+     * unauthorized one in "lenient" mode; "strict" mode rejects it with 4100.
+     */
+    function getSigner(address: Address | undefined): AuthorizedAccount {
+        const active = internal.accounts[0]!;
+        if (address === undefined) return active;
+
+        const signer = internal.accounts.find(
+            (a) => a.account.address.toLowerCase() === address.toLowerCase(),
+        );
+        if (signer) return signer;
+
+        if (internal.addressValidation === "strict") {
+            throw new ProviderRpcError(
+                ProviderErrorCode.Unauthorized,
+                `Account ${address} is not authorized.`,
+            );
+        }
+
+        log(`${address} is not authorized, signing with ${active.account.address}`);
+        return active;
+    }
+
+    /**
+     * Sign a transaction with the given account and submit it to the current chain
+     */
+    async function sendTransaction(
+        txParams: TransactionRequest,
+        signer: AuthorizedAccount,
+    ): Promise<Hex> {
+        // Impersonated accounts send unsigned transactions, which Anvil only accepts once
+        // the address is impersonated on the current chain
+        if (signer.impersonation) {
+            await sendJsonRpc("anvil_impersonateAccount", [signer.impersonation.impersonate]);
+        }
+
+        return internal.walletClient.sendTransaction({
+            ...toViemTransaction(txParams),
+            chain: internal.currentChain as Chain,
+            account: signer.account,
+        });
+    }
+
+    /**
+     * Sign a transaction with the given account without submitting it.
+     * Missing nonce, gas and fee fields are filled from the current chain's RPC.
+     */
+    async function signTransaction(
+        txParams: TransactionRequest,
+        signer: AuthorizedAccount,
+    ): Promise<Hex> {
+        const prepared = await internal.walletClient.prepareTransactionRequest({
+            ...toViemTransaction(txParams),
+            chain: internal.currentChain as Chain,
+            account: signer.account,
+        });
+        return internal.walletClient.signTransaction(prepared);
+    }
+
+    /**
+     * Sign an EIP-7702 authorization with the given account.
+     * Missing chainId and nonce are filled from the current chain.
+     */
+    async function signAuthorization(
+        request: SignAuthorizationParams,
+        signer: AuthorizedAccount,
+    ): Promise<RpcAuthorization> {
+        const authorization = await internal.walletClient.signAuthorization({
+            account: signer.account,
+            contractAddress: request.address,
+            chainId: request.chainId !== undefined ? hexToNumber(request.chainId) : undefined,
+            nonce: request.nonce !== undefined ? hexToNumber(request.nonce) : undefined,
+            executor: request.executor,
+        });
+
+        return {
+            address: authorization.address,
+            chainId: numberToHex(authorization.chainId),
+            nonce: numberToHex(authorization.nonce),
+            r: authorization.r,
+            s: authorization.s,
+            yParity: numberToHex(authorization.yParity ?? 0),
+        };
+    }
+
+    /**
+     * Validate eth_sendTransaction / eth_signTransaction params before they are shown to the "user"
+     */
+    function validateTransaction(txParams: TransactionRequest): void {
+        if (txParams.chainId !== undefined && hexToNumber(txParams.chainId) !== state.chainId) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.InvalidParams,
+                `Invalid chainId: provided chainId "${txParams.chainId}" must match the active chainId "${numberToHex(state.chainId)}".`,
+            );
+        }
+
+        if (txParams.type !== undefined && !toViemTransactionType(txParams.type)) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.InvalidParams,
+                `Unsupported transaction type: ${txParams.type}.`,
+            );
+        }
+    }
+
+    /**
+     * Get the EIP-5792 capabilities for a chain (defaults merged with configured ones)
+     */
+    function getCapabilities(chainId: number): WalletCapabilities {
+        // Smart accounts execute a batch in a single UserOperation
+        const atomic = { status: internal.smartAccount ? "supported" : "unsupported" };
+        return { atomic, ...internal.capabilities[chainId] };
+    }
+
+    /**
+     * Validate a wallet_sendCalls request before it is shown to the "user"
+     */
+    function validateSendCalls(batch: SendCallsParams): void {
+        const chainId = parseInt(batch.chainId, 16);
+        if (chainId !== state.chainId) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.UnsupportedChainId,
+                `Chain ${chainId} is not the active chain (${state.chainId}).`,
+            );
+        }
+
+        if (batch.id !== undefined && internal.callsBatches.has(batch.id)) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.DuplicateId,
+                `A batch with id ${batch.id} already exists.`,
+            );
+        }
+
+        const capabilities = getCapabilities(chainId);
+        const atomicStatus = (capabilities.atomic as { status?: string } | undefined)?.status;
+        if (batch.atomicRequired && atomicStatus !== "supported" && atomicStatus !== "ready") {
+            throw new ProviderRpcError(
+                ProviderErrorCode.AtomicityNotSupported,
+                "Atomic execution is not supported.",
+            );
+        }
+
+        assertCapabilitiesSupported(batch.capabilities, capabilities);
+        for (const call of batch.calls) {
+            assertCapabilitiesSupported(call.capabilities, capabilities);
+            // Reject deployments before the prompt, as the whole batch goes into one UserOperation
+            if (internal.smartAccount) toSmartAccountCall(call);
+        }
+    }
+
+    /**
+     * Execute a wallet_sendCalls batch as sequential transactions from the given account.
+     * Once a call was sent, a failing later call doesn't reject the request: the batch is
+     * stored with the calls sent so far and reports a failure status.
+     */
+    async function sendCalls(
+        batch: SendCallsParams,
+        signer: AuthorizedAccount,
+    ): Promise<{ id: string }> {
+        const id = batch.id ?? numberToHex(++callsBatchId, { size: 32 });
+        const chainId = state.chainId;
+        const hashes: Hex[] = [];
+        let failed = false;
+
+        for (const call of batch.calls) {
+            try {
+                hashes.push(
+                    await sendTransaction(
+                        { to: call.to, data: call.data, value: call.value },
+                        signer,
+                    ),
+                );
+            } catch (error) {
+                if (hashes.length === 0) throw error;
+                log("wallet_sendCalls partially failed", error);
+                failed = true;
+                break;
+            }
+        }
+
+        internal.callsBatches.set(id, { chainId, hashes, atomic: false, failed });
+        return { id };
+    }
+
+    /**
+     * Get the smart account owned by the active account on the current chain (built once)
+     */
+    async function getSmartAccount(): Promise<SmartAccount> {
+        const owner = internal.account;
+        const key = `${internal.currentChain.id}:${owner.address}`;
+
+        let smartAccount = internal.smartAccounts.get(key);
+        if (!smartAccount) {
+            assertLocalOwner(owner);
+            const implementation = internal.smartAccount?.implementation ?? defaultSmartAccount;
+            const client = createPublicClient({
+                chain: internal.currentChain as Chain,
+                transport: getTransport(internal.currentChain.id),
+            });
+            smartAccount = implementation({ client, owner }).catch((error: unknown) => {
+                // Don't cache failures (e.g. the RPC was not up yet)
+                internal.smartAccounts.delete(key);
+                throw error;
+            });
+            internal.smartAccounts.set(key, smartAccount);
+        }
+        return smartAccount;
+    }
+
+    /**
+     * Get the accounts exposed to the dApp (the smart account in smart account mode)
+     */
+    async function getAccounts(): Promise<Address[]> {
+        if (internal.permissionDate === undefined) return [];
+        if (!internal.smartAccount) return state.accounts;
+        return [(await getSmartAccount()).address];
+    }
+
+    /**
+     * Grant the dApp the eth_accounts permission, as if the user approved the connection
+     * prompt. Fails with 4001 while permission requests are rejected.
+     */
+    async function grantAccountsPermission(): Promise<void> {
+        if (internal.rejectPermissions) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.UserRejectedRequest,
+                "User rejected the permissions request.",
+            );
+        }
+        const wasGranted = internal.permissionDate !== undefined;
+        internal.permissionDate = Date.now();
+        if (!wasGranted) emit("accountsChanged", await getAccounts());
+    }
+
+    /**
+     * Mark the dApp connected once it requested accounts, emitting connect the first time
+     * and after a disconnect
+     */
+    function markConnected(): void {
+        internal.disconnected = false;
+        if (!state.isConnected) {
+            state.isConnected = true;
+            emit("connect", { chainId: numberToHex(state.chainId) });
+        }
+    }
+
+    /**
+     * Fail requests the provider cannot serve while disconnected: 4900 after disconnect,
+     * 4901 while the current chain is disconnected
+     */
+    function assertConnected(method: string): void {
+        if (DISCONNECTED_METHODS.includes(method)) return;
+        if (internal.disconnected) {
+            throw new ProviderRpcError(ProviderErrorCode.Disconnected, "Disconnected");
+        }
+        const isSwitch =
+            method === "wallet_switchEthereumChain" || method === "wallet_addEthereumChain";
+        if (internal.disconnectedChains.has(state.chainId) && !isSwitch) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.ChainDisconnected,
+                `Disconnected from chain ${state.chainId}`,
+            );
+        }
+    }
+
+    /**
+     * Tell the dApp its accounts changed, unless it has no access to them
+     */
+    function emitAccountsChanged(accounts: Address[]): void {
+        if (internal.permissionDate !== undefined) emit("accountsChanged", accounts);
+    }
+
+    /**
+     * Permissions the dApp holds, as returned by wallet_getPermissions
+     */
+    async function getPermissions(): Promise<WalletPermission[]> {
+        if (internal.permissionDate === undefined) return [];
+        return [toAccountsPermission(await getAccounts(), internal.permissionDate)];
+    }
+
+    /**
+     * Wrap calls into a UserOperation and submit it through the bundler stand-in
+     */
+    async function sendSmartAccountCalls(
+        smartAccount: SmartAccount,
+        calls: readonly Call[],
+    ): Promise<Hex> {
+        return sendUserOperation({
+            smartAccount,
+            calls,
+            chain: internal.currentChain as Chain,
+            walletClient: internal.walletClient,
+            bundler: bundlerAccount ?? internal.account,
+        });
+    }
+
+    /**
+     * Handle a wallet prompt as the smart account owned by the active account
+     */
+    async function handleSmartAccountMethod<T>(method: string, params?: unknown[]): Promise<T> {
+        const smartAccount = await getSmartAccount();
+
+        const { address } = decodePendingParams(method, params ?? []);
+        const isSmartAccount = address?.toLowerCase() === smartAccount.address.toLowerCase();
+        if (address !== undefined && !isSmartAccount && internal.addressValidation === "strict") {
+            throw new ProviderRpcError(
+                ProviderErrorCode.Unauthorized,
+                `Account ${address} is not authorized.`,
+            );
+        }
+
+        const promptType = SMART_ACCOUNT_PROMPTS[method];
+        if (!promptType) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.UnsupportedMethod,
+                `${method} is not supported in smart account mode.`,
+            );
+        }
+        const chainId = state.chainId;
+        await waitForApproval(promptType, method, params);
+        if (promptType === "transaction") assertSameChain(chainId);
+
+        let result: T;
+
+        switch (method) {
+            case "eth_sendTransaction": {
+                const call = toSmartAccountCall(params?.[0] as TransactionRequest);
+                result = (await sendSmartAccountCalls(smartAccount, [call])) as T;
+                break;
+            }
+
+            case "wallet_sendCalls": {
+                // All calls go into a single UserOperation, so the batch is atomic
+                const batch = params?.[0] as SendCallsParams;
+                const id = batch.id ?? numberToHex(++callsBatchId, { size: 32 });
+                const hash = await sendSmartAccountCalls(
+                    smartAccount,
+                    batch.calls.map(toSmartAccountCall),
+                );
+                internal.callsBatches.set(id, {
+                    chainId: state.chainId,
+                    hashes: [hash],
+                    atomic: true,
+                    failed: false,
+                });
+                result = { id } as T;
+                break;
+            }
+
+            case "personal_sign": {
+                // personal_sign params: [message, address]
+                result = (await smartAccount.signMessage({
+                    message: { raw: params?.[0] as Hex },
+                })) as T;
+                break;
+            }
+
+            case "eth_sign": {
+                // eth_sign params: [address, message]
+                result = (await smartAccount.signMessage({
+                    message: { raw: params?.[1] as Hex },
+                })) as T;
+                break;
+            }
+
+            default: {
+                // eth_signTypedData* params: [address, typedData]
+                const typedData = parseTypedData(params?.[1] as string | TypedData);
+                result = (await smartAccount.signTypedData({
+                    domain: typedData.domain,
+                    types: typedData.types,
+                    primaryType: typedData.primaryType,
+                    message: typedData.message,
+                })) as T;
+                break;
+            }
+        }
 
-    function emit<K extends keyof ProviderEvents>(
-        event: K,
-        ...args: Parameters<ProviderEvents[K]>
-    ): void {
-        listeners[event].forEach((listener) => {
-            // @ts-expect-error - TypeScript can't properly infer the listener type here
-            listener(...args);
-        });
+        log("outgoing (smart account)", { method, result });
+        return result;
     }
 
     /**
-     * Send a JSON-RPC request to the current chain's RPC URL
+     * Get a batch by id, throwing EIP-5792 5730 if it is unknown
      */
-    async function sendJsonRpc<T>(method: string, params?: unknown[]): Promise<T> {
-        const rpcRequest: JsonRpcRequest = {
-            jsonrpc: "2.0",
-            method,
-            params,
-            id: requestId,
-        };
-
-        log(`${method} -> ${internal.rpcUrl}`, rpcRequest);
-
-        const response = await fetch(internal.rpcUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(rpcRequest),
-        });
-
-        const data: JsonRpcResponse<T> = (await response.json()) as JsonRpcResponse<T>;
-
-        log(`${method} <- ${internal.rpcUrl}`, data);
-
-        if (data.error) {
-            const error = new Error(data.error.message);
-            // @ts-expect-error - Adding code property to error
-            error.code = data.error.code;
-            throw error;
+    function getCallsBatch(id: string): CallsBatch {
+        const batch = internal.callsBatches.get(id);
+        if (!batch) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.UnknownBundleId,
+                `No batch with id ${id} was sent.`,
+            );
         }
-
-        return data.result as T;
+        return batch;
     }
 
     /**
-     * Handle read methods by sending to Anvil RPC
+     * Build the wallet_getCallsStatus response from the batch's transaction receipts
      */
-    async function handleReadMethod<T>(method: string, params?: unknown[]): Promise<T> {
-        return sendJsonRpc<T>(method, params);
+    async function getCallsStatus(id: string): Promise<CallsStatus> {
+        const batch = getCallsBatch(id);
+        const receipts = await Promise.all(
+            batch.hashes.map((hash) =>
+                sendJsonRpc<CallReceipt | null>("eth_getTransactionReceipt", [hash], batch.chainId),
+            ),
+        );
+
+        const minedReceipts = receipts.filter((r): r is CallReceipt => r !== null);
+        const status = ((): number => {
+            if (minedReceipts.length < receipts.length) return 100;
+            if (batch.failed) {
+                return minedReceipts.some((r) => r.status === "0x1") ? 600 : 500;
+            }
+            if (minedReceipts.every((r) => r.status === "0x1")) return 200;
+            if (minedReceipts.every((r) => r.status === "0x0")) return 500;
+            return 600;
+        })();
+
+        return {
+            version: CALLS_STATUS_VERSION,
+            id,
+            chainId: numberToHex(batch.chainId),
+            status,
+            atomic: batch.atomic,
+            receipts: minedReceipts.map((r) => ({
+                logs: r.logs.map(({ address, data, topics }) => ({ address, data, topics })),
+                status: r.status,
+                blockHash: r.blockHash,
+                blockNumber: r.blockNumber,
+                gasUsed: r.gasUsed,
+                transactionHash: r.transactionHash,
+            })),
+        };
     }
 
     /**
@@ -294,8 +1293,27 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
     async function handleWriteMethod<T>(method: string, params?: unknown[]): Promise<T> {
         log("incoming", { method, params });
 
+        if (method === "wallet_sendCalls") {
+            validateSendCalls(params?.[0] as SendCallsParams);
+        } else if (method === "eth_sendTransaction" || method === "eth_signTransaction") {
+            validateTransaction(params?.[0] as TransactionRequest);
+        }
+
+        // Only raw transactions can be sent without access to the accounts
+        if (method !== "eth_sendRawTransaction" && internal.permissionDate === undefined) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.Unauthorized,
+                "The requested account has not been authorized by the user.",
+            );
+        }
+
         // Check for transaction rejection
-        if (method === "eth_sendTransaction" && internal.rejectTransaction) {
+        const transactionMethods = [
+            "eth_sendTransaction",
+            "eth_signTransaction",
+            "wallet_sendCalls",
+        ];
+        if (transactionMethods.includes(method) && internal.rejectTransaction) {
             throw new ProviderRpcError(
                 ProviderErrorCode.UserRejectedRequest,
                 "User rejected the transaction request.",
@@ -309,6 +1327,7 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             "eth_signTypedData",
             "eth_signTypedData_v3",
             "eth_signTypedData_v4",
+            "wallet_signAuthorization",
         ];
         if (signingMethods.includes(method) && internal.rejectSignature) {
             throw new ProviderRpcError(
@@ -317,46 +1336,87 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             );
         }
 
+        // Sign with the authorized account named by the request (`from` / address param)
+        const isWalletPrompt =
+            transactionMethods.includes(method) || signingMethods.includes(method);
+        if (isWalletPrompt && internal.smartAccount) {
+            return handleSmartAccountMethod<T>(method, params);
+        }
+        const address = isWalletPrompt
+            ? decodePendingParams(method, params ?? []).address
+            : undefined;
+        const signer = getSigner(address);
+        const chainId = state.chainId;
+
+        if (transactionMethods.includes(method)) {
+            await waitForApproval("transaction", method, params);
+        } else if (signingMethods.includes(method)) {
+            await waitForApproval("signature", method, params);
+        }
+
+        // The test may switch chains or accounts while the prompt is pending
+        if (transactionMethods.includes(method) || method === "wallet_signAuthorization") {
+            assertSameChain(chainId);
+        }
+        if (isWalletPrompt && getSigner(address).account.address !== signer.account.address) {
+            throw new ProviderRpcError(
+                ProviderErrorCode.Unauthorized,
+                `Account ${signer.account.address} is no longer the signer of this request.`,
+            );
+        }
+
+        // Impersonated accounts have no private key to sign with
+        const needsPrivateKey = signingMethods.includes(method) || method === "eth_signTransaction";
+        if (needsPrivateKey && signer.impersonation) {
+            const { impersonate, onSign } = signer.impersonation;
+            // A stub signature only stands in for messages and typed data, not for a signed
+            // transaction or authorization object
+            const signsMessage =
+                method !== "eth_signTransaction" && method !== "wallet_signAuthorization";
+            if (typeof onSign === "string" && signsMessage) {
+                log("outgoing (stub signature)", { method, result: onSign });
+                return onSign as T;
+            }
+            const error = typeof onSign === "string" ? undefined : onSign;
+            throw new ProviderRpcError(
+                error?.code ?? ProviderErrorCode.UnsupportedMethod,
+                error?.message ??
+                    `Cannot sign with impersonated account ${impersonate}: no private key available.`,
+            );
+        }
+
         let result: T;
 
         switch (method) {
             case "eth_sendTransaction": {
-                const txParams = params?.[0] as TransactionRequest;
-
-                // Build transaction request with proper typing
-                const txRequest = {
-                    chain: internal.currentChain as Chain,
-                    to: txParams.to,
-                    value: txParams.value ? BigInt(txParams.value) : undefined,
-                    data: txParams.data,
-                    gas: txParams.gas ? BigInt(txParams.gas) : undefined,
-                    nonce: txParams.nonce ? parseInt(txParams.nonce, 16) : undefined,
-                    // Gas pricing - only one strategy should be used
-                    ...(txParams.maxFeePerGas
-                        ? {
-                              maxFeePerGas: BigInt(txParams.maxFeePerGas),
-                              maxPriorityFeePerGas: txParams.maxPriorityFeePerGas
-                                  ? BigInt(txParams.maxPriorityFeePerGas)
-                                  : undefined,
-                          }
-                        : txParams.gasPrice
-                          ? { gasPrice: BigInt(txParams.gasPrice) }
-                          : {}),
-                };
-
-                const hash = await internal.walletClient.sendTransaction({
-                    ...txRequest,
-                    account: internal.account,
-                });
+                const hash = await sendTransaction(params?.[0] as TransactionRequest, signer);
                 result = hash as T;
                 break;
             }
 
+            case "eth_signTransaction": {
+                result = (await signTransaction(params?.[0] as TransactionRequest, signer)) as T;
+                break;
+            }
+
+            case "wallet_signAuthorization": {
+                result = (await signAuthorization(
+                    params?.[0] as SignAuthorizationParams,
+                    signer,
+                )) as T;
+                break;
+            }
+
+            case "wallet_sendCalls": {
+                result = (await sendCalls(params?.[0] as SendCallsParams, signer)) as T;
+                break;
+            }
+
             case "personal_sign": {
                 // personal_sign params: [message, address]
                 const message = params?.[0] as Hex;
                 const signature = await internal.walletClient.signMessage({
-                    account: internal.account,
+                    account: signer.account,
                     message: { raw: message },
                 });
                 result = signature as T;
@@ -367,7 +1427,7 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
                 // eth_sign params: [address, message]
                 const ethSignMessage = params?.[1] as Hex;
                 const ethSignature = await internal.walletClient.signMessage({
-                    account: internal.account,
+                    account: signer.account,
                     message: { raw: ethSignMessage },
                 });
                 result = ethSignature as T;
@@ -378,14 +1438,10 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             case "eth_signTypedData_v3":
             case "eth_signTypedData_v4": {
                 // params: [address, typedData]
-                const typedDataJson = params?.[1] as string | TypedData;
-                const typedData: TypedData =
-                    typeof typedDataJson === "string"
-                        ? (JSON.parse(typedDataJson) as TypedData)
-                        : typedDataJson;
+                const typedData = parseTypedData(params?.[1] as string | TypedData);
 
                 const typedDataSignature = await internal.walletClient.signTypedData({
-                    account: internal.account,
+                    account: signer.account,
                     domain: typedData.domain,
                     types: typedData.types,
                     primaryType: typedData.primaryType,
@@ -402,7 +1458,10 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             }
 
             default:
-                throw new Error(`Unsupported write method: ${method}`);
+                throw new ProviderRpcError(
+                    ProviderErrorCode.UnsupportedMethod,
+                    `Unsupported write method: ${method}`,
+                );
         }
 
         log("outgoing", { method, result });
@@ -419,7 +1478,7 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
 
         switch (method) {
             case "eth_accounts":
-                result = state.accounts as T;
+                result = (await getAccounts()) as T;
                 break;
 
             case "eth_chainId":
@@ -431,11 +1490,11 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
                 break;
 
             case "eth_requestAccounts": {
-                if (!state.isConnected) {
-                    state.isConnected = true;
-                    emit("connect", { chainId: `0x${state.chainId.toString(16)}` as Hex });
+                if (internal.permissionDate === undefined) {
+                    await grantAccountsPermission();
                 }
-                result = state.accounts as T;
+                markConnected();
+                result = (await getAccounts()) as T;
                 break;
             }
 
@@ -445,12 +1504,10 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
 
                 // Validate chain is supported
                 if (!state.supportedChainIds.includes(newChainId)) {
-                    const error = new Error(
+                    throw new ProviderRpcError(
+                        ProviderErrorCode.UnrecognizedChainId,
                         `Chain ${newChainId} is not supported. Supported chains: ${state.supportedChainIds.join(", ")}`,
                     );
-                    // @ts-expect-error - Adding code property to error (EIP-1193 error code)
-                    error.code = 4902; // Chain not added
-                    throw error;
                 }
 
                 // Find chain config and update internal state
@@ -462,7 +1519,7 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
                     internal.walletClient = createWalletClient({
                         account: internal.account,
                         chain: newChain as Chain,
-                        transport: http(newRpcUrl),
+                        transport: getTransport(newChainId),
                     }) as ReturnType<typeof createWalletClient>;
                 }
 
@@ -473,20 +1530,81 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             }
 
             case "wallet_addEthereumChain": {
-                // In E2E testing, we just accept the chain addition
+                const chainParam = parseAddChainParameter(params?.[0]);
+                const newChainId = parseInt(chainParam.chainId, 16);
+                if (!state.supportedChainIds.includes(newChainId)) {
+                    addChain(chainParam);
+                }
+
+                // Like MetaMask, switch to the chain once it is added
+                if (newChainId !== state.chainId) {
+                    updateChain(internal.chains.find((c) => c.id === newChainId)!);
+                    emit("chainChanged", numberToHex(newChainId));
+                }
                 result = null as T;
                 break;
             }
 
-            case "wallet_requestPermissions":
+            case "wallet_requestPermissions": {
+                parsePermissionsParameter(params?.[0]);
+                await grantAccountsPermission();
+                markConnected();
+                result = (await getPermissions()) as T;
+                break;
+            }
+
             case "wallet_getPermissions": {
-                // Return mock permissions
-                result = [{ parentCapability: "eth_accounts" }] as T;
+                result = (await getPermissions()) as T;
+                break;
+            }
+
+            case "wallet_revokePermissions": {
+                parsePermissionsParameter(params?.[0]);
+                if (internal.permissionDate !== undefined) {
+                    internal.permissionDate = undefined;
+                    emit("accountsChanged", []);
+                }
+                result = null as T;
+                break;
+            }
+
+            case "wallet_watchAsset": {
+                // EIP-747 takes the parameter as is, not wrapped in an array
+                const asset = parseWatchAssetParameter(Array.isArray(params) ? params[0] : params);
+                result = (await watchAsset(asset)) as T;
+                break;
+            }
+
+            case "wallet_getCapabilities": {
+                // params: [address?, chainIds?]
+                const chainIds = (params?.[1] as Hex[] | undefined)?.map((id) => parseInt(id, 16));
+                const capabilities: Record<Hex, WalletCapabilities> = {};
+                for (const chainId of chainIds ?? state.supportedChainIds) {
+                    if (state.supportedChainIds.includes(chainId)) {
+                        capabilities[numberToHex(chainId)] = getCapabilities(chainId);
+                    }
+                }
+                result = capabilities as T;
+                break;
+            }
+
+            case "wallet_getCallsStatus": {
+                result = (await getCallsStatus(params?.[0] as string)) as T;
+                break;
+            }
+
+            case "wallet_showCallsStatus": {
+                // There is no wallet UI to show; just validate the batch exists
+                getCallsBatch(params?.[0] as string);
+                result = null as T;
                 break;
             }
 
             default:
-                throw new Error(`Unsupported wallet method: ${method}`);
+                throw new ProviderRpcError(
+                    ProviderErrorCode.UnsupportedMethod,
+                    `Unsupported wallet method: ${method}`,
+                );
         }
 
         log("outgoing", { method, result });
@@ -506,25 +1624,108 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
         // Increment requestId for logging
         requestId++;
 
-        // Route to appropriate handler based on method type
-        // Wallet methods first (they handle local state like chainId, accounts)
-        if (isWalletMethod(method)) {
-            return handleWalletMethod<T>(method, params);
+        const route = getRoute(method);
+        if (!internal.record) {
+            return runMiddleware<T>({ method, params });
         }
 
-        // Write/signing methods
-        if (isWriteMethod(method)) {
-            return handleWriteMethod<T>(method, params);
+        const recorded: RecordedRequest = {
+            id: requestId,
+            method,
+            params,
+            route,
+            rpcUrl: internal.rpcUrl,
+            chainId: state.chainId,
+            account: internal.account.address,
+            startedAt: Date.now(),
+            duration: 0,
+        };
+        internal.recording.push(recorded);
+
+        const start = performance.now();
+        try {
+            const result = await runMiddleware<T>({ method, params });
+            recorded.result = result;
+            return result;
+        } catch (error) {
+            recorded.error = toRecordedError(error);
+            throw error;
+        } finally {
+            recorded.duration = performance.now() - start;
         }
+    }
+
+    /**
+     * Pass a request through the middleware chain, outermost first, then route it.
+     * The chain is captured when the request starts. Failures, including those seen by
+     * middleware from `next`, are ProviderRpcErrors.
+     */
+    async function runMiddleware<T>(args: RequestArguments): Promise<T> {
+        const chain = internal.middleware.map((entry) => entry.middleware);
+
+        const dispatch = async (index: number, current: RequestArguments): Promise<unknown> => {
+            const handler = chain[index];
+            try {
+                if (!handler) {
+                    return await handleRequest(
+                        getRoute(current.method),
+                        current.method,
+                        current.params,
+                    );
+                }
+                return await handler(current, (next = current) => dispatch(index + 1, next));
+            } catch (error) {
+                throw toProviderRpcError(error);
+            }
+        };
+
+        return (await dispatch(0, args)) as T;
+    }
+
+    /**
+     * Decide how a request is handled based on its method
+     */
+    function getRoute(method: string): RequestRoute {
+        // Wallet methods first (they handle local state like chainId, accounts)
+        if (isWalletMethod(method)) return "wallet";
+        if (isWriteMethod(method)) return "write";
+        if (isReadMethod(method)) return "read";
+        return "unknown";
+    }
 
-        // Read methods go to RPC
-        if (isReadMethod(method)) {
-            return handleReadMethod<T>(method, params);
+    /**
+     * Route a request to the appropriate handler
+     */
+    async function handleRequest<T>(
+        route: RequestRoute,
+        method: string,
+        params?: unknown[],
+    ): Promise<T> {
+        assertConnected(method);
+
+        const fault = findFault(internal.faults, method, state.chainId, params ?? []);
+        if (fault) {
+            log(`Fault ${fault.id} applied to ${method}`, fault.rule);
+            await applyFault(fault, method);
         }
 
-        // Fallback: try as read method (for any unknown methods)
-        log(`Unknown method ${method}, forwarding to RPC`, undefined);
-        return sendJsonRpc<T>(method, params);
+        switch (route) {
+            case "wallet":
+                return handleWalletMethod<T>(method, params);
+
+            // Write/signing methods
+            case "write":
+                return handleWriteMethod<T>(method, params);
+
+            // Read methods go to RPC
+            case "read":
+                return handleReadMethod<T>(method, params);
+
+            // Fallback: try as read method (for any unknown methods)
+            case "unknown":
+                log(`Unknown method ${method}, forwarding to RPC`, undefined);
+                return sendJsonRpc<T>(method, params);
+        }
     }
 
     /**
@@ -545,16 +1746,101 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
     }
 
     /**
-     * Update internal state when signing account changes
+     * Update internal state when the authorized accounts change (the first one is active)
      */
-    function updateSigningAccount(newAccount: PrivateKeyAccount | Account): void {
-        internal.account = newAccount;
+    function updateAccounts(accounts: AuthorizedAccount[]): void {
+        const active = accounts[0]!;
+        internal.accounts = accounts;
+        internal.account = active.account;
+        internal.impersonation = active.impersonation;
         internal.walletClient = createWalletClient({
-            account: newAccount,
+            account: active.account,
             chain: internal.currentChain as Chain,
-            transport: http(internal.rpcUrl),
+            transport: getTransport(internal.currentChain.id),
         }) as ReturnType<typeof createWalletClient>;
-        state.accounts = [newAccount.address];
+        state.accounts = accounts.map((a) => a.account.address);
+    }
+
+    /**
+     * Update internal state when signing account changes
+     */
+    function updateSigningAccount(
+        newAccount: PrivateKeyAccount | Account,
+        impersonation?: ImpersonatedAccountInput,
+    ): void {
+        updateAccounts([{ account: newAccount, impersonation }]);
+    }
+
+    /**
+     * Find the position of an authorized account, throwing if it is not authorized
+     */
+    function indexOfAccount(address: Address): number {
+        const index = internal.accounts.findIndex(
+            (a) => a.account.address.toLowerCase() === address.toLowerCase(),
+        );
+        if (index === -1) {
+            throw new Error(`Account ${address} is not authorized.`);
+        }
+        return index;
+    }
+
+    /**
+     * Add a token suggested with wallet_watchAsset to the active account on the current chain.
+     * Resolves false instead of adding it while suggestions are rejected.
+     */
+    async function watchAsset(asset: WatchAssetParameter): Promise<boolean> {
+        if (verifyWatchedAssets && asset.type === "ERC20") {
+            const client = createPublicClient({
+                chain: internal.currentChain as Chain,
+                transport: getTransport(internal.currentChain.id),
+            });
+            await verifyTokenMetadata(client, asset);
+        }
+        if (internal.rejectWatchAsset) return false;
+
+        const [account = internal.account.address] = await getAccounts();
+        const watched: WatchedAsset = { ...asset, account, chainId: state.chainId };
+        const isWatched = (other: WatchedAsset): boolean =>
+            other.chainId === watched.chainId &&
+            isAddressEqual(other.account, account) &&
+            isSameAsset(other, asset);
+        // Suggesting an asset again updates its details, e.g. the image
+        internal.watchedAssets = [
+            ...internal.watchedAssets.filter((other) => !isWatched(other)),
+            watched,
+        ];
+        log("Watched asset", watched);
+        return true;
+    }
+
+    /**
+     * Register a chain requested by wallet_addEthereumChain, with the RPC URL the
+     * addChainPolicy picks
+     */
+    function addChain(chainParam: AddEthereumChainParameter & { rpcUrls: string[] }): void {
+        const chainId = parseInt(chainParam.chainId, 16);
+        const rejected = (reason: string): ProviderRpcError =>
+            new ProviderRpcError(
+                ProviderErrorCode.UserRejectedRequest,
+                `User rejected the request to add chain ${chainId}${reason}.`,
+            );
+
+        if (internal.rejectAddChain) throw rejected("");
+        let rpcUrl = rpcUrls[chainId];
+        if (internal.addChainPolicy === "dapp" || rpcUrl === undefined) {
+            if (internal.addChainPolicy === "reject") {
+                throw rejected(": no RPC URL is configured for it");
+            }
+            rpcUrl = chainParam.rpcUrls[0]!;
+            rpcUrls[chainId] = rpcUrl;
+        }
+        if (createBackendTransport !== "rpc" && !transports[chainId]) {
+            transports[chainId] = createBackendTransport({ chainId, accounts: backendAccounts });
+        }
+
+        internal.chains.push(toCompatibleChain(chainParam, rpcUrl));
+        state.supportedChainIds.push(chainId);
+        log(`Added chain ${chainId}`, rpcUrl);
     }
 
     /**
@@ -567,7 +1853,7 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
         internal.walletClient = createWalletClient({
             account: internal.account,
             chain: newChain as Chain,
-            transport: http(newRpcUrl),
+            transport: getTransport(newChain.id),
         }) as ReturnType<typeof createWalletClient>;
         state.chainId = newChain.id;
     }
@@ -580,9 +1866,56 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
 
         // Control methods (callable from browser context, e.g. via page.evaluate)
         setSigningAccount(account: SigningAccountInput): void {
-            const newAccount = resolveAccount(account);
-            updateSigningAccount(newAccount);
-            emit("accountsChanged", [newAccount.address]);
+            const newAccount = resolveAccount(account, anvilAccounts);
+            updateSigningAccount(newAccount, isImpersonation(account) ? account : undefined);
+            if (internal.smartAccount) {
+                // The dApp sees the smart account of the new owner, which is resolved async
+                getSmartAccount().then(
+                    (smartAccount) => emitAccountsChanged([smartAccount.address]),
+                    (error: unknown) => log("smart account", error),
+                );
+            } else {
+                emitAccountsChanged([newAccount.address]);
+            }
+        },
+
+        addAccount(account: SigningAccountInput): void {
+            if (internal.smartAccount) {
+                throw new Error("Smart account mode supports a single account.");
+            }
+            const newAccount = resolveAccount(account, anvilAccounts);
+            if (state.accounts.some((a) => a.toLowerCase() === newAccount.address.toLowerCase())) {
+                throw new Error(`Account ${newAccount.address} is already authorized.`);
+            }
+            updateAccounts([
+                ...internal.accounts,
+                {
+                    account: newAccount,
+                    impersonation: isImpersonation(account) ? account : undefined,
+                },
+            ]);
+            emitAccountsChanged([...state.accounts]);
+        },
+
+        removeAccount(address: Address): void {
+            const index = indexOfAccount(address);
+            if (internal.accounts.length === 1) {
+                throw new Error("Cannot remove the last authorized account.");
+            }
+            updateAccounts(internal.accounts.filter((_, i) => i !== index));
+            emitAccountsChanged([...state.accounts]);
+        },
+
+        reorderAccounts(addresses: Address[]): void {
+            const indexes = addresses.map(indexOfAccount);
+            const count = internal.accounts.length;
+            if (indexes.length !== count || new Set(indexes).size !== count) {
+                throw new Error(
+                    `reorderAccounts expects every authorized account exactly once: ${state.accounts.join(", ")}`,
+                );
+            }
+            updateAccounts(indexes.map((i) => internal.accounts[i]!));
+            emitAccountsChanged([...state.accounts]);
         },
 
         setRejectSignature(reject: boolean): void {
@@ -593,6 +1926,114 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             internal.rejectTransaction = reject;
         },
 
+        setRejectAddChain(reject: boolean): void {
+            internal.rejectAddChain = reject;
+        },
+
+        setRejectPermissions(reject: boolean): void {
+            internal.rejectPermissions = reject;
+        },
+
+        setRejectWatchAsset(reject: boolean): void {
+            internal.rejectWatchAsset = reject;
+        },
+
+        getWatchedAssets(): WatchedAsset[] {
+            return internal.watchedAssets.map((asset) => ({
+                ...asset,
+                options: { ...asset.options },
+            }));
+        },
+
+        setApprovalMode(mode: ApprovalMode): void {
+            internal.approvalMode = mode;
+        },
+
+        setApprovalDelay(delays: ApprovalDelays): void {
+            internal.approvalDelay = { ...internal.approvalDelay, ...delays };
+        },
+
+        setAddressValidation(mode: AddressValidation): void {
+            internal.addressValidation = mode;
+        },
+
+        getPendingRequests(): PendingRequest[] {
+            return Array.from(internal.pendingRequests.values(), (entry) => entry.request);
+        },
+
+        approveRequest(id: number): void {
+            takePendingRequest(id).resolve();
+        },
+
+        rejectRequest(id: number, code: number = ProviderErrorCode.UserRejectedRequest): void {
+            const { request, reject } = takePendingRequest(id);
+            reject(new ProviderRpcError(code, `User rejected the ${request.type} request.`));
+        },
+
+        setCapabilities(chainId: number, capabilities: WalletCapabilities): void {
+            internal.capabilities[chainId] = capabilities;
+        },
+
+        getRecording(): RecordedRequest[] {
+            return [...internal.recording];
+        },
+
+        clearRecording(): void {
+            internal.recording = [];
+        },
+
+        exportRecording(): RecordingExport {
+            return toRecordingExport(internal.recording);
+        },
+
+        getFixture(): RpcFixture {
+            return { ...internal.fixture };
+        },
+
+        addFault(rule: FaultRule): number {
+            const id = ++faultId;
+            internal.faults.push(toActiveFault(id, rule));
+            return id;
+        },
+
+        removeFault(id: number): void {
+            const removed = internal.faults.find((fault) => fault.id === id);
+            if (!removed) {
+                throw new Error(`No fault with id ${id}.`);
+            }
+            internal.faults = internal.faults.filter((fault) => fault !== removed);
+            releaseFault(removed);
+        },
+
+        clearFaults(): void {
+            const removed = internal.faults;
+            internal.faults = [];
+            removed.forEach((fault) => releaseFault(fault));
+        },
+
+        addMiddleware(handler: RequestMiddleware): number {
+            const id = ++middlewareId;
+            internal.middleware.push({ id, middleware: handler });
+            return id;
+        },
+
+        removeMiddleware(id: number): void {
+            if (!internal.middleware.some((entry) => entry.id === id)) {
+                throw new Error(`No middleware with id ${id}.`);
+            }
+            internal.middleware = internal.middleware.filter((entry) => entry.id !== id);
+        },
+
+        clearMiddleware(): void {
+            internal.middleware = [];
+        },
+
+        mockContractCall(mock: ContractCallMock): number {
+            const id = ++middlewareId;
+            internal.middleware.push({ id, middleware: contractCallMiddleware(mock) });
+            return id;
+        },
+
         setChain(chainId: number): void {
             // Validate chain is supported
             if (!state.supportedChainIds.includes(chainId)) {
@@ -614,10 +2055,89 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             emit("chainChanged", chainIdHex);
         },
 
-        disconnect(): void {
+        disconnect(chainId?: number): void {
+            if (chainId !== undefined) {
+                internal.disconnectedChains.add(chainId);
+                return;
+            }
+
+            // Wallet prompts still open can no longer be confirmed, nor answered by a node
+            for (const id of Array.from(internal.pendingRequests.keys())) {
+                takePendingRequest(id).reject(
+                    new ProviderRpcError(ProviderErrorCode.Disconnected, "Disconnected"),
+                );
+            }
+            for (const fault of internal.faults) {
+                releaseFault(
+                    fault,
+                    new ProviderRpcError(ProviderErrorCode.Disconnected, "Disconnected"),
+                );
+            }
+            internal.disconnected = true;
+            internal.permissionDate = undefined;
+            state.isConnected = false;
             emit("disconnect", { code: 4900, message: "Disconnected" });
         },
 
+        reconnect(chainId?: number): void {
+            if (chainId !== undefined) {
+                internal.disconnectedChains.delete(chainId);
+                return;
+            }
+            internal.disconnectedChains.clear();
+            if (!internal.disconnected) return;
+            markConnected();
+            // With autoAuthorize the dApp is still authorized, like a wallet coming back online
+            if (autoAuthorize && internal.permissionDate === undefined) {
+                internal.permissionDate = Date.now();
+                getAccounts().then(emitAccountsChanged, (error: unknown) =>
+                    log("reconnect", error),
+                );
+            }
+        },
+
+        async snapshot(): Promise<Hex> {
+            return sendJsonRpc<Hex>("evm_snapshot", []);
+        },
+
+        async revert(snapshotId: Hex): Promise<boolean> {
+            return sendJsonRpc<boolean>("evm_revert", [snapshotId]);
+        },
+
+        async mine(blocks = 1, interval?: number): Promise<void> {
+            const params = [numberToHex(blocks)];
+            if (interval !== undefined) params.push(numberToHex(interval));
+            await sendJsonRpc("anvil_mine", params);
+        },
+
+        async setBalance(address: Address, wei: bigint | number): Promise<void> {
+            await sendJsonRpc("anvil_setBalance", [address, numberToHex(wei)]);
+        },
+
+        async setCode(address: Address, bytecode: Hex): Promise<void> {
+            await sendJsonRpc("anvil_setCode", [address, bytecode]);
+        },
+
+        async setStorageAt(address: Address, slot: Hex, value: Hex): Promise<void> {
+            await sendJsonRpc("anvil_setStorageAt", [address, slot, pad(value)]);
+        },
+
+        async setNextBlockTimestamp(timestamp: bigint | number): Promise<void> {
+            await sendJsonRpc("evm_setNextBlockTimestamp", [numberToHex(timestamp)]);
+        },
+
+        async increaseTime(seconds: number): Promise<void> {
+            await sendJsonRpc("evm_increaseTime", [numberToHex(seconds)]);
+        },
+
+        async impersonateAccount(address: Address): Promise<void> {
+            await sendJsonRpc("anvil_impersonateAccount", [address]);
+        },
+
+        async stopImpersonatingAccount(address: Address): Promise<void> {
+            await sendJsonRpc("anvil_stopImpersonatingAccount", [address]);
+        },
+
         __internal: {
             get account(): PrivateKeyAccount | Account {
                 return internal.account;
@@ -637,6 +2157,9 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             get state(): ProviderState {
                 return state;
             },
+            get anvilAccounts(): readonly AnvilAccount[] {
+                return anvilAccounts;
+            },
             set account(newAccount: PrivateKeyAccount | Account) {
                 updateSigningAccount(newAccount);
             },
@@ -659,13 +2182,67 @@ export function createE2EProvider(config: E2EProviderConfig = {}): E2EProviderWi
             set rejectTransaction(value: boolean) {
                 internal.rejectTransaction = value;
             },
+            get approvalMode(): ApprovalMode {
+                return internal.approvalMode;
+            },
+            set approvalMode(value: ApprovalMode) {
+                internal.approvalMode = value;
+            },
+            get addressValidation(): AddressValidation {
+                return internal.addressValidation;
+            },
+            set addressValidation(value: AddressValidation) {
+                internal.addressValidation = value;
+            },
+            get capabilities(): Record<number, WalletCapabilities> {
+                return internal.capabilities;
+            },
+            get impersonation(): ImpersonatedAccountInput | undefined {
+                return internal.impersonation;
+            },
         },
     };
 }
 export {
+    addAccount,
+    addFault,
+    addMiddleware,
+    approveRequest,
+    clearFaults,
+    clearMiddleware,
+    clearRecording,
     disconnect,
+    exportRecording,
+    getFixture,
+    getPendingRequests,
+    getRecording,
+    getWatchedAssets,
+    impersonateAccount,
+    increaseTime,
+    mine,
+    mockContractCall,
+    reconnect,
+    rejectRequest,
+    removeAccount,
+    removeFault,
+    removeMiddleware,
+    reorderAccounts,
+    revert,
+    setAddressValidation,
+    setApprovalDelay,
+    setApprovalMode,
+    setBalance,
+    setCapabilities,
     setChain,
+    setCode,
+    setNextBlockTimestamp,
+    setRejectAddChain,
+    setRejectPermissions,
     setRejectSignature,
     setRejectTransaction,
+    setRejectWatchAsset,
     setSigningAccount,
+    setStorageAt,
+    snapshot,
+    stopImpersonatingAccount,
 } from "./provider-controls.js";
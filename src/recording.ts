@@ -0,0 +1,42 @@
+import type { RecordedRequest, RecordingExport } from "./types.js";
+
+/**
+ * Extract the JSON-serializable parts of a thrown error
+ */
+export function toRecordedError(error: unknown): NonNullable<RecordedRequest["error"]> {
+    if (!(error instanceof Error)) {
+        return { message: String(error) };
+    }
+    const { code, data } = error as Error & { code?: unknown; data?: unknown };
+    return {
+        ...(typeof code === "number" ? { code } : {}),
+        message: error.message,
+        ...(data !== undefined ? { data } : {}),
+    };
+}
+
+/**
+ * Convert recorded requests to a HAR-like log that can be attached as a test artifact
+ */
+export function toRecordingExport(requests: readonly RecordedRequest[]): RecordingExport {
+    return {
+        log: {
+            version: "1.0",
+            creator: { name: "@wonderland/walletless" },
+            entries: requests.map((r) => ({
+                startedDateTime: new Date(r.startedAt).toISOString(),
+                time: r.duration,
+                request: {
+                    id: r.id,
+                    method: r.method,
+                    params: r.params,
+                    route: r.route,
+                    url: r.rpcUrl,
+                },
+                response: r.error ? { error: r.error } : { result: r.result },
+                chainId: r.chainId,
+                account: r.account,
+            })),
+        },
+    };
+}
@@ -0,0 +1,111 @@
+import type { Account, Call, Chain, Hex, LocalAccount, WalletClient } from "viem";
+import type { SmartAccount } from "viem/account-abstraction";
+import { concatHex } from "viem";
+import { toCoinbaseSmartAccount, toPackedUserOperation } from "viem/account-abstraction";
+
+import type { SmartAccountFactory } from "./types.js";
+
+/**
+ * Gas limits of the UserOperations sent by the bundler stand-in.
+ * Fees are zero so the smart account needs no deposit; the bundler pays the handleOps gas.
+ */
+const USER_OPERATION_GAS = {
+    callGasLimit: 5_000_000n,
+    verificationGasLimit: 2_000_000n,
+    preVerificationGas: 100_000n,
+    maxFeePerGas: 0n,
+    maxPriorityFeePerGas: 0n,
+} as const;
+
+/**
+ * Default smart account: Coinbase Smart Wallet v1.1 owned by the signing account.
+ * Its factory and EntryPoint 0.6 are deployed on mainnet, Base and most L2s, so it works
+ * on forks of those chains out of the box.
+ */
+export const defaultSmartAccount: SmartAccountFactory = ({ client, owner }) =>
+    toCoinbaseSmartAccount({ client, owners: [owner], version: "1.1" });
+
+/**
+ * Parameters for sendUserOperation
+ */
+type SendUserOperationParameters = {
+    smartAccount: SmartAccount;
+    calls: readonly Call[];
+    chain: Chain;
+    walletClient: WalletClient;
+    /** EOA that submits the UserOperation to the EntryPoint and receives the refund */
+    bundler: Account;
+};
+
+/**
+ * Act as a bundler: wrap calls into a signed UserOperation and submit it to the
+ * smart account's EntryPoint through handleOps, deploying the account on first use.
+ *
+ * @returns The hash of the handleOps transaction
+ */
+export async function sendUserOperation({
+    smartAccount,
+    calls,
+    chain,
+    walletClient,
+    bundler,
+}: SendUserOperationParameters): Promise<Hex> {
+    const [callData, nonce, isDeployed] = await Promise.all([
+        smartAccount.encodeCalls(calls),
+        smartAccount.getNonce(),
+        smartAccount.isDeployed(),
+    ]);
+    const { factory, factoryData } = isDeployed
+        ? { factory: undefined, factoryData: undefined }
+        : await smartAccount.getFactoryArgs();
+
+    const { abi, address, version } = smartAccount.entryPoint;
+    const base = {
+        sender: smartAccount.address,
+        nonce,
+        callData,
+        ...USER_OPERATION_GAS,
+        signature: "0x" as Hex,
+    };
+
+    let operation: unknown;
+    if (version === "0.6") {
+        const userOperation = {
+            ...base,
+            initCode: factory && factoryData ? concatHex([factory, factoryData]) : ("0x" as Hex),
+            paymasterAndData: "0x" as Hex,
+        };
+        userOperation.signature = await smartAccount.signUserOperation({
+            ...userOperation,
+            chainId: chain.id,
+        });
+        operation = userOperation;
+    } else {
+        const userOperation = { ...base, factory, factoryData };
+        userOperation.signature = await smartAccount.signUserOperation({
+            ...userOperation,
+            chainId: chain.id,
+        });
+        operation = toPackedUserOperation(userOperation);
+    }
+
+    return walletClient.writeContract({
+        address,
+        abi,
+        functionName: "handleOps",
+        args: [[operation], bundler.address],
+        account: bundler,
+        chain,
+    });
+}
+
+/**
+ * Check that a smart account owner can sign locally
+ */
+export function assertLocalOwner(account: Account): asserts account is LocalAccount {
+    if (account.type !== "local") {
+        throw new Error(
+            `Smart account mode needs a local owner account with a private key, got ${account.type} account ${account.address}.`,
+        );
+    }
+}
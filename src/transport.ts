@@ -0,0 +1,82 @@
+import type { Transport } from "viem";
+import { custom, RpcRequestError } from "viem";
+
+import type { ChainTransport, JsonRpcHandler, MemoryBackendOptions } from "./types.js";
+
+/**
+ * Wrap a JSON-RPC handler into a viem Transport, e.g. to serve requests from an in-process
+ * chain or to add auth headers, so it can be passed in the provider's `transport` config.
+ *
+ * @param handler - Receives each JSON-RPC request and resolves with its JSON-RPC response
+ * @returns A viem Transport
+ *
+ * @example
+ * ```typescript
+ * const provider = createE2EProvider({
+ *   transport: {
+ *     1: jsonRpcTransport(async (request) => {
+ *       const response = await fetch("https://rpc.example", {
+ *         method: "POST",
+ *         headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+ *         body: JSON.stringify(request),
+ *       });
+ *       return response.json();
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+export function jsonRpcTransport(handler: JsonRpcHandler): Transport {
+    let id = 0;
+    return custom(
+        {
+            async request({ method, params }: { method: string; params?: unknown[] }) {
+                const body = { jsonrpc: "2.0" as const, id: ++id, method, params };
+                const response = await handler(body);
+                if (response.error) {
+                    throw new RpcRequestError({ body, error: response.error, url: "custom" });
+                }
+                return response.result;
+            },
+        },
+        { key: "jsonRpc", name: "JSON-RPC Handler" },
+    );
+}
+
+/**
+ * Resolve a chain's `transport` config to a viem Transport, wrapping `{ handler }` functions
+ */
+export function toTransport(transport: ChainTransport): Transport {
+    return typeof transport === "function" ? transport : jsonRpcTransport(transport.handler);
+}
+
+/**
+ * Transport backed by an in-memory EVM instead of a node, for unit and component tests.
+ * Signed transactions are mined right away and the accounts start funded like on Anvil.
+ * Needs the optional `@ethereumjs/vm`, `@ethereumjs/block`, `@ethereumjs/common`,
+ * `@ethereumjs/tx` and `@ethereumjs/util` packages, loaded on the first request.
+ *
+ * @param options - Chain ID and funded accounts
+ * @returns A viem Transport; each call creates a separate chain
+ *
+ * @example
+ * ```typescript
+ * const provider = createE2EProvider({ transport: { 1: memoryTransport({ chainId: 1 }) } });
+ * // or for every chain: createE2EProvider({ backend: "memory" })
+ * ```
+ */
+export function memoryTransport(options: MemoryBackendOptions): Transport {
+    let backend: Promise<JsonRpcHandler> | undefined;
+    return jsonRpcTransport(async (request) => {
+        backend ??= import("./memory-backend.js").then(
+            ({ createMemoryBackend }) => createMemoryBackend(options),
+            (error: unknown) => {
+                throw new Error(
+                    "The in-memory backend needs @ethereumjs/vm, @ethereumjs/block, @ethereumjs/common, @ethereumjs/tx and @ethereumjs/util to be installed.",
+                    { cause: error },
+                );
+            },
+        );
+        return (await backend)(request);
+    });
+}
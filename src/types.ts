@@ -1,4 +1,15 @@
-import type { Account, Address, Chain, Hex } from "viem";
+import type {
+    Abi,
+    AccessList,
+    Account,
+    Address,
+    Chain,
+    Hex,
+    LocalAccount,
+    RpcAuthorizationList,
+    Transport,
+} from "viem";
+import type { SmartAccount, SmartAccountImplementation } from "viem/account-abstraction";
 
 /**
  * Compatible chain type to work with viem and wagmi providers
@@ -27,16 +38,332 @@ export type E2EProviderConfig = {
      * @example { 1: 'http://mainnet:8545', 42161: 'http://arbitrum:8546' }
      */
     rpcUrls?: Record<number, string>;
+    /**
+     * Per-chain viem Transports used for reads and writes instead of `http(rpcUrl)`, e.g.
+     * `webSocket()` or `http(url, { fetchOptions })`, or a `{ handler }` JSON-RPC function.
+     * Chains without a transport use their RPC URL.
+     * @example { 1: webSocket('ws://localhost:8545'), 10: { handler: (request) => ... } }
+     */
+    transport?: Record<number, ChainTransport>;
+    /**
+     * Where chains without a `transport` send their requests:
+     * - "rpc": their RPC URL, e.g. an Anvil node (default)
+     * - "memory": an in-memory EVM started for each chain, with the Anvil accounts funded
+     * - a transport factory, called for each chain with its ID and the accounts to fund
+     */
+    backend?: Backend;
+    /**
+     * RPC URL of chains the dApp adds with wallet_addEthereumChain:
+     * - "override": the chain's `rpcUrls` entry, else the dApp's first URL (default)
+     * - "dapp": the dApp's first URL
+     * - "reject": the chain's `rpcUrls` entry, else the request is rejected with 4001,
+     *   keeping tests off public RPCs
+     */
+    addChainPolicy?: AddChainPolicy;
+    /**
+     * Check the symbol and decimals of ERC-20 tokens suggested with wallet_watchAsset against
+     * their contract, failing with -32602 on a mismatch (default: false)
+     */
+    verifyWatchedAssets?: boolean;
+    /**
+     * Grant the dApp access to the accounts from the start, as if it connected on an earlier
+     * visit. With false, eth_accounts returns [] until the dApp calls eth_requestAccounts or
+     * wallet_requestPermissions, like on a first visit (default: true)
+     */
+    autoAuthorize?: boolean;
     /**
      * Account for signing transactions. Can be:
-     * - A private key hex string (default: Anvil's first test account)
+     * - A private key hex string (default: first Anvil account)
      * - A viem Account object (for impersonation or custom accounts)
      */
     account?: Hex | Account;
+    /**
+     * Mnemonic Anvil was started with (`anvil --mnemonic`).
+     * Account indices and addresses in setSigningAccount resolve against the accounts derived
+     * from it, and the first one is the default account.
+     * (default: "test test test test test test test test test test test junk")
+     */
+    mnemonic?: string;
+    /** Number of accounts to derive from the mnemonic (`anvil --accounts`, default: 10) */
+    accountsCount?: number;
+    /** Derivation path prefix, the account index is appended (default: "m/44'/60'/0'/0/") */
+    derivationPath?: string;
+    /**
+     * How wallet prompts (transactions and signatures) are confirmed:
+     * - "auto": approved immediately unless a reject switch is enabled (default)
+     * - "manual": held in a pending queue until approveRequest/rejectRequest is called
+     */
+    approvalMode?: ApprovalMode;
+    /**
+     * Delay in ms before "auto" mode confirms a wallet prompt, per prompt type, e.g. to assert
+     * "Confirm in your wallet" states. Delayed prompts show up in getPendingRequests and can be
+     * settled early with approveRequest/rejectRequest.
+     * @example { transaction: 2000, signature: (request) => (request.method === "personal_sign" ? 500 : 0) }
+     */
+    approvalDelay?: ApprovalDelays;
+    /**
+     * How the `from` / address parameter of signing requests is checked:
+     * - "lenient": sign with the matching authorized account, else the active one (default)
+     * - "strict": reject addresses that are not authorized with a 4100 error
+     */
+    addressValidation?: AddressValidation;
+    /**
+     * EIP-5792 capabilities reported by wallet_getCapabilities, per chain ID.
+     * Merged over the default `{ atomic: { status: "unsupported" } }`.
+     * @example { 1: { paymasterService: { supported: true } } }
+     */
+    capabilities?: Record<number, WalletCapabilities>;
+    /**
+     * Act as an ERC-4337 smart account owned by the signing account.
+     * `eth_accounts` returns the smart account's (counterfactual) address, transactions are
+     * wrapped into UserOperations sent to the EntryPoint by a local bundler stand-in, and
+     * signatures are wrapped so the account's ERC-1271 `isValidSignature` accepts them.
+     */
+    smartAccount?: SmartAccountConfig;
+    /** Record every request for getRecording/exportRecording (default: false) */
+    record?: boolean;
+    /**
+     * Record upstream read responses into a fixture, or replay them without a network.
+     * Fixtures are keyed by chain, method and normalized params.
+     */
+    fixtures?: FixturesConfig;
+    /** Fault rules active from the start (see addFault) */
+    faults?: FaultRule[];
+    /** Middleware active from the start, outermost first (see addMiddleware) */
+    middleware?: RequestMiddleware[];
     /** Enable debug logging (default: false) */
     debug?: boolean;
 };
 
+/**
+ * Builds the smart account for an owner, with a client connected to the current chain
+ */
+export type SmartAccountFactory = (parameters: {
+    client: SmartAccountImplementation["client"];
+    owner: LocalAccount;
+}) => Promise<SmartAccount>;
+
+/**
+ * ERC-4337 smart account mode settings
+ */
+export type SmartAccountConfig = {
+    /**
+     * Smart account implementation, e.g. viem's toSoladySmartAccount with a factory deployed
+     * on the fork (default: Coinbase Smart Wallet v1.1 with EntryPoint 0.6)
+     */
+    implementation?: SmartAccountFactory;
+    /** EOA that submits UserOperations and pays their gas (default: the owner) */
+    bundler?: Hex | Account;
+};
+
+/**
+ * Read fixture settings
+ */
+export type FixturesConfig = {
+    /**
+     * - "record": forward reads to the RPC and store their responses (see getFixture)
+     * - "replay": answer reads from `fixture` only; unmatched reads fail
+     */
+    mode: FixtureMode;
+    /** Responses to replay, or to start recording from (e.g. a JSON file from getFixture) */
+    fixture?: RpcFixture;
+};
+
+/**
+ * Fixture mode for read traffic
+ */
+export type FixtureMode = "record" | "replay";
+
+/**
+ * Upstream read responses keyed by chain, method and normalized params
+ * @example { '1:eth_blockNumber:[]': { result: '0x10' } }
+ */
+export type RpcFixture = Record<string, { result: unknown } | { error: JsonRpcError }>;
+
+/**
+ * Simulated failure for the requests a rule matches.
+ * The first matching rule applies; rules are checked in the order they were added.
+ */
+export type FaultRule = {
+    /** Method name, or a glob such as "eth_*" or "*" */
+    method: string;
+    /** Only match requests made while this chain is active */
+    chainId?: number;
+    /** Only match requests whose params satisfy this predicate */
+    params?: (params: unknown[]) => boolean;
+    /** Delay before the request is handled or fails (ms) */
+    latency?: number;
+    /** Fail with this error instead of handling the request */
+    error?: { code: number; message?: string; data?: unknown };
+    /**
+     * Don't answer, like an unresponsive node: `true` holds the request until the rule is
+     * removed (then it is handled) or the provider disconnects (4900); a number of ms fails
+     * it with -32603 once that time has passed
+     */
+    timeout?: boolean | number;
+    /** Only apply to the Nth matching request (1-based) */
+    nth?: number;
+    /** Stop applying after this many requests, e.g. to fail the first two then recover */
+    times?: number;
+};
+
+/**
+ * Error a mocked contract call reverts with: a reason string (`Error(string)`) or a custom error
+ * from the mock's ABI
+ */
+export type ContractCallRevert = string | { errorName: string; args?: readonly unknown[] };
+
+/**
+ * Fixed answer for calls to one contract function (see mockContractCall)
+ */
+export type ContractCallMock = {
+    /** Contract address */
+    address: Address;
+    /** ABI with the function, and the custom errors `revert` may name */
+    abi: Abi;
+    functionName: string;
+    /** Only match calls with these arguments (default: any arguments) */
+    args?: readonly unknown[];
+    /** Also answer eth_estimateGas for matching calls, failing it when the mock reverts */
+    estimateGas?: boolean;
+} & (
+    | {
+          /** Value returned by the function, an array for several outputs */
+          returns: unknown;
+          revert?: undefined;
+      }
+    | {
+          returns?: undefined;
+          revert: ContractCallRevert;
+      }
+);
+
+/**
+ * EIP-1193 request arguments
+ */
+export type RequestArguments = {
+    method: string;
+    params?: unknown[];
+};
+
+/**
+ * Intercepts every request before it is routed. Return a value to answer the request, throw
+ * (e.g. a ProviderRpcError) to fail it, or call `next` to pass it on, optionally with rewritten
+ * arguments, and return its result as is or transformed.
+ */
+export type RequestMiddleware = (
+    request: RequestArguments,
+    next: (request?: RequestArguments) => Promise<unknown>,
+) => unknown;
+
+/**
+ * Backend answering the provider's JSON-RPC requests: the chains' RPC URLs, an in-memory EVM
+ * per chain, or a transport created for each chain
+ */
+export type Backend = "rpc" | "memory" | ((options: MemoryBackendOptions) => Transport);
+
+/**
+ * In-memory EVM settings (see memoryTransport), also passed to `backend` transport factories
+ */
+export type MemoryBackendOptions = {
+    /** Chain ID reported by the backend and required in signed transactions */
+    chainId: number;
+    /** Accounts funded at genesis (default: the Anvil accounts) */
+    accounts?: readonly Address[];
+    /** Balance of each funded account in wei (default: 10000 ETH, like Anvil) */
+    balance?: bigint;
+};
+
+/**
+ * RPC URL policy for chains added with wallet_addEthereumChain
+ */
+export type AddChainPolicy = "override" | "dapp" | "reject";
+
+/**
+ * wallet_addEthereumChain parameter
+ * @see https://eips.ethereum.org/EIPS/eip-3085
+ */
+export type AddEthereumChainParameter = {
+    chainId: Hex;
+    chainName?: string;
+    nativeCurrency?: { name: string; symbol: string; decimals: number };
+    rpcUrls?: string[];
+    blockExplorerUrls?: string[] | null;
+    iconUrls?: string[];
+};
+
+/**
+ * Permission granted to the dApp, as returned by wallet_getPermissions
+ * @see https://eips.ethereum.org/EIPS/eip-2255
+ */
+export type WalletPermission = {
+    invoker: string;
+    parentCapability: string;
+    caveats: { type: string; value: unknown }[];
+    date: number;
+};
+
+/**
+ * wallet_watchAsset parameter
+ * @see https://eips.ethereum.org/EIPS/eip-747
+ */
+export type WatchAssetParameter = {
+    type: "ERC20" | "ERC721" | "ERC1155";
+    options: {
+        address: Address;
+        symbol?: string;
+        decimals?: number;
+        image?: string;
+        /** Token of the collection, required for ERC721 and ERC1155 */
+        tokenId?: string;
+    };
+};
+
+/**
+ * Asset suggested with wallet_watchAsset, for the account and chain it was added to
+ */
+export type WatchedAsset = WatchAssetParameter & {
+    account: Address;
+    chainId: number;
+};
+
+/**
+ * Approval mode for wallet prompts
+ */
+export type ApprovalMode = "auto" | "manual";
+
+/**
+ * Delay in ms before an auto-approved wallet prompt is confirmed,
+ * or a function picking the delay of each prompt
+ */
+export type ApprovalDelay = number | ((request: PendingRequest) => number);
+
+/**
+ * Approval delays per wallet prompt type
+ */
+export type ApprovalDelays = Partial<Record<PendingRequest["type"], ApprovalDelay>>;
+
+/**
+ * Validation mode for the address a signing request names
+ */
+export type AddressValidation = "lenient" | "strict";
+
+/**
+ * Impersonated signing account (no private key).
+ * Transactions are sent unsigned to Anvil after anvil_impersonateAccount.
+ */
+export type ImpersonatedAccountInput = {
+    /** Address to act as, e.g. a whale or a DAO multisig */
+    impersonate: Address;
+    /**
+     * How signature requests are answered, since there is no key to sign with:
+     * - `{ code, message }`: fail with this error (default: 4200 "Cannot sign with impersonated account ...")
+     * - a hex string: return it as a stub signature for messages and typed data
+     *   (eth_signTransaction and wallet_signAuthorization still fail with the default error)
+     */
+    onSign?: { code: number; message: string } | Hex;
+};
+
 /**
  * JSON-RPC request structure
  */
@@ -57,6 +384,17 @@ export type JsonRpcResponse<T = unknown> = {
     error?: JsonRpcError;
 };
 
+/**
+ * Custom JSON-RPC request handler (see jsonRpcTransport)
+ */
+export type JsonRpcHandler = (request: JsonRpcRequest) => Promise<JsonRpcResponse>;
+
+/**
+ * Transport of a chain: a viem Transport, or a JSON-RPC handler wrapped in `{ handler }`
+ * (both are functions, so a bare handler could not be told apart)
+ */
+export type ChainTransport = Transport | { handler: JsonRpcHandler };
+
 /**
  * JSON-RPC error structure
  */
@@ -98,6 +436,29 @@ export type E2EProvider = {
     ) => void;
 };
 
+/**
+ * EIP-6963 wallet metadata announced alongside the provider
+ * @see https://eips.ethereum.org/EIPS/eip-6963#provider-info
+ */
+export type EIP6963ProviderInfo = {
+    /** Unique id of this provider instance (UUIDv4) */
+    uuid: string;
+    /** Human-readable wallet name shown in wallet pickers */
+    name: string;
+    /** Data URI of the wallet icon */
+    icon: string;
+    /** Reverse-DNS identifier of the wallet, e.g. "io.metamask" */
+    rdns: string;
+};
+
+/**
+ * Payload of the eip6963:announceProvider event
+ */
+export type EIP6963ProviderDetail = {
+    info: EIP6963ProviderInfo;
+    provider: E2EProvider;
+};
+
 /**
  * Internal provider state
  */
@@ -109,9 +470,13 @@ export type ProviderState = {
 };
 
 /**
- * Transaction request parameters for eth_sendTransaction
+ * Transaction request parameters for eth_sendTransaction and eth_signTransaction
  */
 export type TransactionRequest = {
+    /** EIP-2718 type: "0x0" legacy, "0x1" EIP-2930, "0x2" EIP-1559, "0x4" EIP-7702 */
+    type?: Hex;
+    /** Must match the active chain when given */
+    chainId?: Hex;
     from?: Address;
     to?: Address;
     gas?: Hex;
@@ -121,6 +486,109 @@ export type TransactionRequest = {
     value?: Hex;
     data?: Hex;
     nonce?: Hex;
+    /** EIP-2930 access list (type 1 with gasPrice, otherwise type 2) */
+    accessList?: AccessList;
+    /** EIP-7702 signed authorizations (type 4) */
+    authorizationList?: RpcAuthorizationList;
+};
+
+/**
+ * EIP-7702 authorization request for wallet_signAuthorization.
+ * Returns the signed authorization in JSON-RPC format, ready for a type-4 `authorizationList`.
+ */
+export type SignAuthorizationParams = {
+    /** Account signing the authorization (default: the active account) */
+    from?: Address;
+    /** Contract the account delegates its code to */
+    address: Address;
+    /** Chain the authorization is valid on, "0x0" for any chain (default: the active chain) */
+    chainId?: Hex;
+    /** Authority nonce (default: the account's transaction count) */
+    nonce?: Hex;
+    /** "self" when the signer also sends the type-4 transaction, which uses up one nonce */
+    executor?: "self";
+};
+
+/**
+ * Wallet prompt waiting for a test to approve or reject it (manual approval mode)
+ */
+export type PendingRequest = {
+    /** Unique id used with approveRequest/rejectRequest */
+    id: number;
+    /** Whether the prompt is a transaction or a signature request */
+    type: "transaction" | "signature";
+    method: string;
+    params: unknown[];
+    /** Params decoded for easier assertions */
+    decoded: {
+        /** Address the request was made for, when the method carries one */
+        address?: Address;
+        /** Transaction request (eth_sendTransaction, eth_signTransaction) */
+        transaction?: TransactionRequest;
+        /** UTF-8 decoded message (personal_sign, eth_sign) */
+        message?: string;
+        /** Parsed typed data (eth_signTypedData*) */
+        typedData?: TypedData;
+        /** Calls of a batch (wallet_sendCalls) */
+        calls?: SendCallsCall[];
+        /** Authorization request (wallet_signAuthorization) */
+        authorization?: SignAuthorizationParams;
+    };
+};
+
+/**
+ * EIP-5792 capabilities of a wallet on a single chain
+ */
+export type WalletCapabilities = Record<string, unknown>;
+
+/**
+ * Single call inside a wallet_sendCalls batch
+ */
+export type SendCallsCall = {
+    to?: Address;
+    data?: Hex;
+    value?: Hex;
+    capabilities?: WalletCapabilities;
+};
+
+/**
+ * wallet_sendCalls request parameters
+ * @see https://eips.ethereum.org/EIPS/eip-5792#wallet_sendcalls
+ */
+export type SendCallsParams = {
+    version: string;
+    id?: string;
+    from?: Address;
+    chainId: Hex;
+    atomicRequired?: boolean;
+    calls: SendCallsCall[];
+    capabilities?: WalletCapabilities;
+};
+
+/**
+ * Receipt of a call reported by wallet_getCallsStatus
+ */
+export type CallReceipt = {
+    logs: { address: Address; data: Hex; topics: Hex[] }[];
+    status: Hex;
+    blockHash: Hex;
+    blockNumber: Hex;
+    gasUsed: Hex;
+    transactionHash: Hex;
+};
+
+/**
+ * wallet_getCallsStatus response
+ * @see https://eips.ethereum.org/EIPS/eip-5792#wallet_getcallsstatus
+ */
+export type CallsStatus = {
+    version: string;
+    id: string;
+    chainId: Hex;
+    /** 100 pending, 200 confirmed, 500 failed on-chain, 600 partially failed */
+    status: number;
+    atomic: boolean;
+    receipts: CallReceipt[];
 };
 
 /**
@@ -152,6 +620,64 @@ export type AddressesWithCapabilities<withCapabilities extends boolean = false>
         ? readonly { address: `0x${string}`; capabilities: Record<string, unknown> }[]
         : readonly `0x${string}`[];
 
+/**
+ * How the provider handled a request
+ * - "wallet": answered from local wallet state
+ * - "write": signed locally
+ * - "read": forwarded to the RPC
+ * - "unknown": not a known method, forwarded to the RPC
+ */
+export type RequestRoute = "wallet" | "write" | "read" | "unknown";
+
+/**
+ * A request recorded by the provider
+ */
+export type RecordedRequest = {
+    /** Sequential request id */
+    id: number;
+    method: string;
+    params: unknown[] | undefined;
+    route: RequestRoute;
+    /** RPC URL of the active chain when the request was made */
+    rpcUrl: string;
+    /** Active chain when the request was made */
+    chainId: number;
+    /** Active signing account when the request was made */
+    account: Address;
+    /** Start time (ms since epoch) */
+    startedAt: number;
+    /** Time until the request settled (ms) */
+    duration: number;
+    /** Result of a successful request */
+    result?: unknown;
+    /** Error of a failed request */
+    error?: { code?: number; message: string; data?: unknown };
+};
+
+/**
+ * HAR-like JSON export of the recorded requests (see exportRecording)
+ */
+export type RecordingExport = {
+    log: {
+        version: string;
+        creator: { name: string };
+        entries: {
+            startedDateTime: string;
+            time: number;
+            request: {
+                id: number;
+                method: string;
+                params: unknown[] | undefined;
+                route: RequestRoute;
+                url: string;
+            };
+            response: Pick<RecordedRequest, "result" | "error">;
+            chainId: number;
+            account: Address;
+        }[];
+    };
+};
+
 /**
  * EIP-1193 compliant provider error
  * @see https://eips.ethereum.org/EIPS/eip-1193#provider-errors
@@ -177,4 +703,28 @@ export const ProviderErrorCode = {
     UnsupportedMethod: 4200,
     Disconnected: 4900,
     ChainDisconnected: 4901,
+    // EIP-3326 error codes
+    UnrecognizedChainId: 4902,
+    // EIP-5792 error codes
+    UnsupportedNonOptionalCapability: 5700,
+    UnsupportedChainId: 5710,
+    DuplicateId: 5720,
+    UnknownBundleId: 5730,
+    AtomicityNotSupported: 5760,
+    // JSON-RPC error codes
+    ParseError: -32700,
+    InvalidRequest: -32600,
+    MethodNotFound: -32601,
+    InvalidParams: -32602,
+    InternalError: -32603,
+    // EIP-1474 error codes
+    InvalidInput: -32000,
+    ResourceNotFound: -32001,
+    ResourceUnavailable: -32002,
+    TransactionRejected: -32003,
+    MethodNotSupported: -32004,
+    LimitExceeded: -32005,
+    JsonRpcVersionNotSupported: -32006,
+    // Node error codes
+    ExecutionReverted: 3,
 } as const;
@@ -0,0 +1,106 @@
+import type { PublicClient } from "viem";
+import { erc20Abi, isAddress, isAddressEqual } from "viem";
+
+import type { WatchAssetParameter } from "./types.js";
+import { ProviderErrorCode, ProviderRpcError } from "./types.js";
+
+const ASSET_TYPES: readonly WatchAssetParameter["type"][] = ["ERC20", "ERC721", "ERC1155"];
+
+function invalidParams(message: string): ProviderRpcError {
+    return new ProviderRpcError(ProviderErrorCode.InvalidParams, message);
+}
+
+/**
+ * Validate the parameter of a wallet_watchAsset request against EIP-747,
+ * failing with -32602 on the first invalid field.
+ * ERC-20 tokens need a symbol and decimals; NFTs need the tokenId of the asset.
+ * @see https://eips.ethereum.org/EIPS/eip-747
+ */
+export function parseWatchAssetParameter(param: unknown): WatchAssetParameter {
+    if (typeof param !== "object" || param === null) {
+        throw invalidParams("Expected a single { type, options } object.");
+    }
+    const { type, options } = param as Record<string, unknown>;
+
+    if (!ASSET_TYPES.includes(type as WatchAssetParameter["type"])) {
+        throw invalidParams(
+            `Invalid type ${String(type)}: expected one of ${ASSET_TYPES.join(", ")}.`,
+        );
+    }
+    if (typeof options !== "object" || options === null) {
+        throw invalidParams("Invalid options: expected an object.");
+    }
+    const { address, symbol, decimals, image, tokenId } = options as Record<string, unknown>;
+
+    if (typeof address !== "string" || !isAddress(address, { strict: false })) {
+        throw invalidParams(`Invalid options.address ${String(address)}.`);
+    }
+    if (
+        (type === "ERC20" || symbol !== undefined) &&
+        (typeof symbol !== "string" || symbol.length < 1 || symbol.length > 11)
+    ) {
+        throw invalidParams("Invalid options.symbol: expected 1-11 characters.");
+    }
+    if (
+        (type === "ERC20" || decimals !== undefined) &&
+        (typeof decimals !== "number" ||
+            !Number.isInteger(decimals) ||
+            decimals < 0 ||
+            decimals > 36)
+    ) {
+        throw invalidParams("Invalid options.decimals: expected an integer from 0 to 36.");
+    }
+    if (image !== undefined && typeof image !== "string") {
+        throw invalidParams("Invalid options.image: expected a URL.");
+    }
+    if (type !== "ERC20" && (typeof tokenId !== "string" || !/^\d+$/.test(tokenId))) {
+        throw invalidParams("Invalid options.tokenId: expected a decimal string.");
+    }
+
+    return param as WatchAssetParameter;
+}
+
+/**
+ * Whether two watch requests suggest the same asset
+ */
+export function isSameAsset(a: WatchAssetParameter, b: WatchAssetParameter): boolean {
+    return (
+        a.type === b.type &&
+        isAddressEqual(a.options.address, b.options.address) &&
+        a.options.tokenId === b.options.tokenId
+    );
+}
+
+/**
+ * Check the symbol and decimals of an ERC-20 token against its contract,
+ * failing with -32602 when they differ or cannot be read
+ */
+export async function verifyTokenMetadata(
+    client: PublicClient,
+    { options }: WatchAssetParameter,
+): Promise<void> {
+    const token = { address: options.address, abi: erc20Abi } as const;
+    let onChain: [string, number];
+    try {
+        onChain = await Promise.all([
+            client.readContract({ ...token, functionName: "symbol" }),
+            client.readContract({ ...token, functionName: "decimals" }),
+        ]);
+    } catch {
+        throw invalidParams(
+            `Could not read the symbol and decimals of token ${options.address} on chain ${client.chain?.id}.`,
+        );
+    }
+
+    const [symbol, decimals] = onChain;
+    if (symbol !== options.symbol) {
+        throw invalidParams(
+            `Symbol ${options.symbol} does not match ${symbol} of token ${options.address}.`,
+        );
+    }
+    if (decimals !== options.decimals) {
+        throw invalidParams(
+            `Decimals ${options.decimals} do not match ${decimals} of token ${options.address}.`,
+        );
+    }
+}
@@ -0,0 +1,203 @@
+import { arbitrum, mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { AddEthereumChainParameter, E2EProviderConfig } from "../src/types.js";
+import { createE2EProvider, setRejectAddChain } from "../src/provider.js";
+import { ProviderErrorCode, ProviderRpcError } from "../src/types.js";
+import { mockRpc } from "./utils/mockRpc.js";
+
+const POLYGON: AddEthereumChainParameter = {
+    chainId: "0x89",
+    chainName: "Polygon",
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    rpcUrls: ["https://polygon-rpc.com"],
+    blockExplorerUrls: ["https://polygonscan.com"],
+};
+
+function addChain(
+    provider: ReturnType<typeof createE2EProvider>,
+    chain: unknown = POLYGON,
+): Promise<unknown> {
+    return provider.request({ method: "wallet_addEthereumChain", params: [chain] });
+}
+
+/**
+ * URL the provider sends reads to after adding Polygon
+ */
+async function addedChainRpcUrl(config: E2EProviderConfig): Promise<unknown> {
+    const mockFetch = mockRpc({}, () => "0x10");
+    const provider = createE2EProvider(config);
+    await addChain(provider);
+    await provider.request({ method: "eth_blockNumber" });
+    return mockFetch.mock.calls[0]![0];
+}
+
+describe("wallet_addEthereumChain", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should add the chain and switch to it", async () => {
+        const provider = createE2EProvider();
+        const chainChanged = vi.fn();
+        provider.on("chainChanged", chainChanged);
+
+        await expect(
+            provider.request({
+                method: "wallet_switchEthereumChain",
+                params: [{ chainId: "0x89" }],
+            }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.UnrecognizedChainId });
+        expect(await addChain(provider)).toBeNull();
+
+        expect(chainChanged).toHaveBeenCalledWith("0x89");
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x89");
+        expect(provider.__internal.state.supportedChainIds).toEqual([1, 137]);
+        expect(provider.__internal.currentChain).toEqual({
+            id: 137,
+            name: "Polygon",
+            nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+            rpcUrls: { default: { http: ["https://polygon-rpc.com"] } },
+            blockExplorers: { default: { name: "Explorer", url: "https://polygonscan.com" } },
+        });
+
+        // Switching back and forth works like for configured chains
+        await provider.request({
+            method: "wallet_switchEthereumChain",
+            params: [{ chainId: "0x1" }],
+        });
+        await provider.request({
+            method: "wallet_switchEthereumChain",
+            params: [{ chainId: "0x89" }],
+        });
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x89");
+    });
+
+    it("should switch to chains that are already supported without adding them again", async () => {
+        const provider = createE2EProvider({ chains: [mainnet, arbitrum] });
+
+        await addChain(provider, { ...POLYGON, chainId: "0xa4b1" });
+
+        expect(provider.__internal.currentChain.name).toBe("Arbitrum One");
+        expect(provider.__internal.state.supportedChainIds).toEqual([1, 42161]);
+    });
+
+    it("should use the rpcUrls entry of the chain by default", async () => {
+        expect(await addedChainRpcUrl({ rpcUrls: { 137: "http://localhost:8547" } })).toBe(
+            "http://localhost:8547",
+        );
+    });
+
+    it("should fall back to the dApp's RPC URL by default", async () => {
+        expect(await addedChainRpcUrl({})).toBe("https://polygon-rpc.com");
+    });
+
+    it("should always use the dApp's RPC URL with the dapp policy", async () => {
+        expect(
+            await addedChainRpcUrl({
+                rpcUrls: { 137: "http://localhost:8547" },
+                addChainPolicy: "dapp",
+            }),
+        ).toBe("https://polygon-rpc.com");
+    });
+
+    it("should only add chains with an rpcUrls entry with the reject policy", async () => {
+        const provider = createE2EProvider({ addChainPolicy: "reject" });
+
+        await expect(addChain(provider)).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the request to add chain 137: no RPC URL is configured for it.",
+        });
+        expect(provider.__internal.state.supportedChainIds).toEqual([1]);
+
+        expect(
+            await addedChainRpcUrl({
+                rpcUrls: { 137: "http://localhost:8547" },
+                addChainPolicy: "reject",
+            }),
+        ).toBe("http://localhost:8547");
+    });
+
+    it("should reject adding chains when the reject switch is on", async () => {
+        const provider = createE2EProvider();
+        setRejectAddChain(provider, true);
+
+        await expect(addChain(provider)).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the request to add chain 137.",
+        });
+        expect(provider.__internal.state.chainId).toBe(1);
+
+        setRejectAddChain(provider, false);
+        await addChain(provider);
+        expect(provider.__internal.state.chainId).toBe(137);
+    });
+
+    it.each([
+        ["a missing parameter", null, "Expected a single AddEthereumChainParameter object."],
+        ["a decimal chainId", { ...POLYGON, chainId: "137" }, "Invalid chainId 137"],
+        ["a chainId with leading zeros", { ...POLYGON, chainId: "0x089" }, "Invalid chainId 0x089"],
+        ["an empty chainName", { ...POLYGON, chainName: "" }, "Invalid chainName"],
+        ["no rpcUrls", { ...POLYGON, rpcUrls: [] }, "Invalid rpcUrls"],
+        ["a non-http rpcUrl", { ...POLYGON, rpcUrls: ["ftp://rpc.example"] }, "Invalid rpcUrls"],
+        [
+            "an invalid block explorer",
+            { ...POLYGON, blockExplorerUrls: ["polygonscan"] },
+            "Invalid blockExplorerUrls",
+        ],
+        [
+            "a too long currency symbol",
+            { ...POLYGON, nativeCurrency: { name: "Pol", symbol: "POLYGON", decimals: 18 } },
+            "Invalid nativeCurrency.symbol",
+        ],
+        [
+            "fractional decimals",
+            { ...POLYGON, nativeCurrency: { name: "Pol", symbol: "POL", decimals: 1.5 } },
+            "Invalid nativeCurrency.decimals",
+        ],
+    ])("should reject %s with -32602", async (_case, chain, message) => {
+        const provider = createE2EProvider();
+
+        const error = await addChain(provider, chain).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ProviderRpcError);
+        expect(error).toMatchObject({ code: ProviderErrorCode.InvalidParams });
+        expect((error as ProviderRpcError).message).toContain(message);
+        expect(provider.__internal.state.supportedChainIds).toEqual([1]);
+    });
+
+    it("should default the name and native currency", async () => {
+        const provider = createE2EProvider();
+
+        await addChain(provider, { chainId: "0x2105", rpcUrls: ["https://mainnet.base.org"] });
+
+        expect(provider.__internal.currentChain).toMatchObject({
+            id: 8453,
+            name: "Chain 8453",
+            nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        });
+    });
+
+    it("should run added chains on the in-memory backend in memory mode", async () => {
+        const mockFetch = vi.spyOn(global, "fetch");
+        const provider = createE2EProvider({ backend: "memory" });
+
+        await addChain(provider);
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x0");
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setRejectAddChain(fakeProvider, true)).toThrow(
+            "Provider does not support setRejectAddChain",
+        );
+    });
+});
@@ -3,6 +3,8 @@ import { arbitrum, mainnet, optimism } from "viem/chains";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { e2eConnector } from "../src/connector.js";
+import { deriveAnvilAccounts } from "../src/constants.js";
+import { createE2EProvider } from "../src/provider.js";
 
 const mockChain = mainnet;
 
@@ -100,6 +102,41 @@ describe("e2eConnector", () => {
             expect(result.chainId).toBe(137);
         });
 
+        it("should return accounts with capabilities when requested", async () => {
+            const connector = e2eConnector({ chains: [mockChain], account: TEST_PRIVATE_KEY });
+            const mockConfig = createMockConfig();
+            const instance = connector(mockConfig as never);
+
+            const result = await instance.connect({ withCapabilities: true });
+
+            expect(result.accounts).toEqual([
+                { address: TEST_ADDRESS, capabilities: { atomic: { status: "unsupported" } } },
+            ]);
+        });
+
+        it("should include capabilities configured on an external provider", async () => {
+            const provider = createE2EProvider({
+                chains: [mockChain],
+                account: TEST_PRIVATE_KEY,
+                capabilities: { 1: { paymasterService: { supported: true } } },
+            });
+            const connector = e2eConnector({ provider });
+            const mockConfig = createMockConfig();
+            const instance = connector(mockConfig as never);
+
+            const result = await instance.connect({ withCapabilities: true });
+
+            expect(result.accounts).toEqual([
+                {
+                    address: TEST_ADDRESS,
+                    capabilities: {
+                        atomic: { status: "unsupported" },
+                        paymasterService: { supported: true },
+                    },
+                },
+            ]);
+        });
+
         it("should use default chain id when no chainId provided", async () => {
             const connector = e2eConnector({ chains: [mockChain], account: TEST_PRIVATE_KEY });
             const mockConfig = createMockConfig();
@@ -142,6 +179,23 @@ describe("e2eConnector", () => {
         });
     });
 
+    describe("getAccounts with mnemonic", () => {
+        it("should return the first derived account before connecting", async () => {
+            const mnemonic =
+                "legal winner thank year wave sausage worth useful legal winner thank yellow";
+            const connector = e2eConnector({ chains: [mockChain], mnemonic });
+            const mockConfig = createMockConfig();
+            const instance = connector(mockConfig as never);
+
+            const accounts = await instance.getAccounts();
+            await instance.connect({});
+            const provider = await instance.getProvider();
+
+            expect(accounts).toEqual([deriveAnvilAccounts(mnemonic, 1)[0]!.address]);
+            expect(await provider.request({ method: "eth_accounts" })).toEqual(accounts);
+        });
+    });
+
     describe("getChainId", () => {
         it("should return default chain id when not connected", async () => {
             const connector = e2eConnector({ chains: [mockChain], account: TEST_PRIVATE_KEY });
@@ -201,7 +255,7 @@ describe("e2eConnector", () => {
     });
 
     describe("isAuthorized", () => {
-        it("should always return true", async () => {
+        it("should return true while the dApp has access to the accounts", async () => {
             const connector = e2eConnector({ chains: [mockChain], account: TEST_PRIVATE_KEY });
             const mockConfig = createMockConfig();
             const instance = connector(mockConfig as never);
@@ -210,6 +264,45 @@ describe("e2eConnector", () => {
 
             expect(authorized).toBe(true);
         });
+
+        it("should return false once permissions are revoked until connecting again", async () => {
+            const provider = createE2EProvider({ chains: [mockChain], account: TEST_PRIVATE_KEY });
+            const connector = e2eConnector({ provider });
+            const mockConfig = createMockConfig();
+            const instance = connector(mockConfig as never);
+            await instance.setup!();
+
+            await provider.request({
+                method: "wallet_revokePermissions",
+                params: [{ eth_accounts: {} }],
+            });
+
+            expect(await instance.isAuthorized()).toBe(false);
+            expect(mockConfig.emitter.emit).toHaveBeenCalledWith("disconnect");
+
+            const { accounts } = await instance.connect({});
+
+            expect(accounts).toEqual([TEST_ADDRESS]);
+            expect(await instance.isAuthorized()).toBe(true);
+        });
+
+        it("should return false until connected with autoAuthorize disabled", async () => {
+            const connector = e2eConnector({
+                chains: [mockChain],
+                account: TEST_PRIVATE_KEY,
+                autoAuthorize: false,
+            });
+            const mockConfig = createMockConfig();
+            const instance = connector(mockConfig as never);
+
+            expect(await instance.isAuthorized()).toBe(false);
+            await instance.getProvider();
+            expect(await instance.isAuthorized()).toBe(false);
+
+            await instance.connect({});
+
+            expect(await instance.isAuthorized()).toBe(true);
+        });
     });
 
     describe("switchChain", () => {
@@ -0,0 +1,282 @@
+import type { BaseError, Hex } from "viem";
+import {
+    ContractFunctionRevertedError,
+    createPublicClient,
+    custom,
+    encodeFunctionData,
+    parseAbi,
+} from "viem";
+import { mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { RpcHandlers } from "./utils/mockRpc.js";
+import { createE2EProvider, mockContractCall, removeMiddleware } from "../src/provider.js";
+import { ProviderErrorCode } from "../src/types.js";
+import { mockRpc } from "./utils/mockRpc.js";
+
+const FEED = "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419";
+const SALE = "0x00000000000000000000000000000000000000aa";
+const USER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const abi = parseAbi([
+    "function latestAnswer() view returns (int256)",
+    "function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)",
+    "function isAllowed(address user) view returns (bool)",
+    "function mint(uint256 amount)",
+    "error NotAllowlisted(address user)",
+]);
+
+/**
+ * Node answering every eth_call with 0x01 and every estimate with 0x5208
+ */
+const NODE_HANDLERS: RpcHandlers = { eth_estimateGas: () => "0x5208" };
+const answerOne = (): Hex => `0x${"0".repeat(63)}1`;
+
+function createClient(
+    provider: ReturnType<typeof createE2EProvider>,
+): ReturnType<typeof createPublicClient> {
+    return createPublicClient({ chain: mainnet, transport: custom(provider) });
+}
+
+describe("mockContractCall", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should answer calls to the function with the encoded value", async () => {
+        const mockFetch = mockRpc(NODE_HANDLERS, answerOne);
+        const provider = createE2EProvider();
+        mockContractCall(provider, {
+            address: FEED,
+            abi,
+            functionName: "latestAnswer",
+            returns: 2000_00000000n,
+        });
+
+        const answer = await createClient(provider).readContract({
+            address: FEED,
+            abi,
+            functionName: "latestAnswer",
+        });
+
+        expect(answer).toBe(2000_00000000n);
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should encode functions with several outputs from an array", async () => {
+        const provider = createE2EProvider();
+        mockContractCall(provider, {
+            address: FEED,
+            abi,
+            functionName: "latestRoundData",
+            returns: [1n, 2000n, 3n, 4n, 1n],
+        });
+
+        const round = await createClient(provider).readContract({
+            address: FEED,
+            abi,
+            functionName: "latestRoundData",
+        });
+
+        expect(round).toEqual([1n, 2000n, 3n, 4n, 1n]);
+    });
+
+    it("should leave other functions, contracts and arguments to the node", async () => {
+        const mockFetch = mockRpc(NODE_HANDLERS, answerOne);
+        const provider = createE2EProvider();
+        const client = createClient(provider);
+        mockContractCall(provider, {
+            address: SALE,
+            abi,
+            functionName: "isAllowed",
+            args: [USER],
+            returns: false,
+        });
+
+        expect(
+            await client.readContract({
+                address: SALE,
+                abi,
+                functionName: "isAllowed",
+                args: [USER],
+            }),
+        ).toBe(false);
+        expect(
+            await client.readContract({
+                address: SALE,
+                abi,
+                functionName: "isAllowed",
+                args: [SALE],
+            }),
+        ).toBe(true);
+        expect(
+            await client.readContract({
+                address: FEED,
+                abi,
+                functionName: "isAllowed",
+                args: [USER],
+            }),
+        ).toBe(true);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should revert with a reason string", async () => {
+        const provider = createE2EProvider();
+        mockContractCall(provider, {
+            address: SALE,
+            abi,
+            functionName: "isAllowed",
+            revert: "sale closed",
+        });
+
+        const error = await createClient(provider)
+            .readContract({ address: SALE, abi, functionName: "isAllowed", args: [USER] })
+            .catch((e: unknown) => e);
+
+        const reverted = (error as BaseError).walk(
+            (e) => e instanceof ContractFunctionRevertedError,
+        ) as ContractFunctionRevertedError;
+        expect(reverted.reason).toBe("sale closed");
+        await expect(
+            provider.request({
+                method: "eth_call",
+                params: [
+                    {
+                        to: SALE,
+                        data: encodeFunctionData({ abi, functionName: "isAllowed", args: [USER] }),
+                    },
+                    "latest",
+                ],
+            }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.ExecutionReverted,
+            message: "execution reverted: sale closed",
+        });
+    });
+
+    it("should revert with a custom error", async () => {
+        const provider = createE2EProvider();
+        mockContractCall(provider, {
+            address: SALE,
+            abi,
+            functionName: "isAllowed",
+            revert: { errorName: "NotAllowlisted", args: [USER] },
+        });
+
+        const error = await createClient(provider)
+            .readContract({ address: SALE, abi, functionName: "isAllowed", args: [USER] })
+            .catch((e: unknown) => e);
+
+        const reverted = (error as BaseError).walk(
+            (e) => e instanceof ContractFunctionRevertedError,
+        ) as ContractFunctionRevertedError;
+        expect(reverted.data?.errorName).toBe("NotAllowlisted");
+        expect(reverted.data?.args).toEqual([USER]);
+    });
+
+    it("should fail gas estimation of reverting calls when asked to", async () => {
+        mockRpc(NODE_HANDLERS, answerOne);
+        const provider = createE2EProvider();
+        const call = {
+            to: SALE,
+            data: encodeFunctionData({ abi, functionName: "mint", args: [1n] }),
+        };
+        const id = mockContractCall(provider, {
+            address: SALE,
+            abi,
+            functionName: "mint",
+            revert: "sold out",
+        });
+
+        expect(await provider.request({ method: "eth_estimateGas", params: [call] })).toBe(
+            "0x5208",
+        );
+
+        removeMiddleware(provider, id);
+        mockContractCall(provider, {
+            address: SALE,
+            abi,
+            functionName: "mint",
+            revert: "sold out",
+            estimateGas: true,
+        });
+
+        await expect(
+            provider.request({ method: "eth_estimateGas", params: [call] }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.ExecutionReverted,
+            message: "execution reverted: sold out",
+        });
+    });
+
+    it("should answer gas estimation of non-reverting calls when asked to", async () => {
+        const provider = createE2EProvider();
+        mockContractCall(provider, {
+            address: SALE,
+            abi,
+            functionName: "mint",
+            returns: undefined,
+            estimateGas: true,
+        });
+
+        const call = {
+            to: SALE,
+            data: encodeFunctionData({ abi, functionName: "mint", args: [1n] }),
+        };
+        expect(await provider.request({ method: "eth_estimateGas", params: [call] })).toBe(
+            "0x186a0",
+        );
+    });
+
+    it("should stop mocking once removed", async () => {
+        mockRpc(NODE_HANDLERS, answerOne);
+        const provider = createE2EProvider();
+        const id = mockContractCall(provider, {
+            address: FEED,
+            abi,
+            functionName: "latestAnswer",
+            returns: 5n,
+        });
+
+        removeMiddleware(provider, id);
+
+        expect(
+            await createClient(provider).readContract({
+                address: FEED,
+                abi,
+                functionName: "latestAnswer",
+            }),
+        ).toBe(1n);
+    });
+
+    it("should throw for functions missing from the ABI", () => {
+        const provider = createE2EProvider();
+
+        expect(() =>
+            mockContractCall(provider, {
+                address: FEED,
+                abi,
+                functionName: "decimals",
+                returns: 8,
+            }),
+        ).toThrow('Function "decimals" not found on the ABI.');
+    });
+
+    it("should throw a helpful error for a provider without contract mocks", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() =>
+            mockContractCall(fakeProvider, {
+                address: FEED,
+                abi,
+                functionName: "latestAnswer",
+                returns: 1n,
+            }),
+        ).toThrow("Provider does not support mockContractCall");
+    });
+});
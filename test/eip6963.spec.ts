@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { EIP6963ProviderDetail } from "../src/types.js";
+import { DEFAULT_PROVIDER_INFO } from "../src/constants.js";
+import { announceE2EProvider } from "../src/eip6963.js";
+import { createE2EProvider } from "../src/provider.js";
+
+function listenForAnnouncements(target: EventTarget): EIP6963ProviderDetail[] {
+    const announcements: EIP6963ProviderDetail[] = [];
+    target.addEventListener("eip6963:announceProvider", (event) => {
+        announcements.push((event as CustomEvent<EIP6963ProviderDetail>).detail);
+    });
+    return announcements;
+}
+
+describe("announceE2EProvider", () => {
+    it("should announce the provider immediately with the given info", () => {
+        const target = new EventTarget();
+        const announcements = listenForAnnouncements(target);
+        const provider = createE2EProvider();
+        const info = {
+            uuid: "350670db-19fa-4704-a166-e52e178b59d2",
+            name: "E2E Wallet",
+            icon: "data:image/svg+xml,<svg/>",
+            rdns: "com.example.e2e",
+        };
+
+        announceE2EProvider(provider, info, target);
+
+        expect(announcements).toHaveLength(1);
+        expect(announcements[0]!.info).toEqual(info);
+        expect(announcements[0]!.provider).toBe(provider);
+    });
+
+    it("should fall back to default info and a random uuid", () => {
+        const target = new EventTarget();
+        const announcements = listenForAnnouncements(target);
+
+        announceE2EProvider(createE2EProvider(), {}, target);
+
+        expect(announcements[0]!.info).toMatchObject(DEFAULT_PROVIDER_INFO);
+        expect(announcements[0]!.info.uuid).toMatch(
+            /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+        );
+    });
+
+    it("should build the uuid from getRandomValues outside secure contexts", () => {
+        vi.stubGlobal("crypto", { getRandomValues: crypto.getRandomValues.bind(crypto) });
+        const target = new EventTarget();
+        const announcements = listenForAnnouncements(target);
+
+        try {
+            announceE2EProvider(createE2EProvider(), {}, target);
+            announceE2EProvider(createE2EProvider(), {}, target);
+        } finally {
+            vi.unstubAllGlobals();
+        }
+
+        const [first, second] = announcements.map((a) => a.info.uuid);
+        expect(first).toMatch(
+            /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+        );
+        expect(second).not.toBe(first);
+    });
+
+    it("should freeze the announced detail", () => {
+        const target = new EventTarget();
+        const announcements = listenForAnnouncements(target);
+
+        announceE2EProvider(createE2EProvider(), {}, target);
+
+        expect(Object.isFrozen(announcements[0])).toBe(true);
+        expect(Object.isFrozen(announcements[0]!.info)).toBe(true);
+    });
+
+    it("should re-announce on every eip6963:requestProvider", () => {
+        const target = new EventTarget();
+        const announcements = listenForAnnouncements(target);
+
+        announceE2EProvider(createE2EProvider(), {}, target);
+        target.dispatchEvent(new Event("eip6963:requestProvider"));
+        target.dispatchEvent(new Event("eip6963:requestProvider"));
+
+        expect(announcements).toHaveLength(3);
+        expect(announcements[2]).toBe(announcements[0]);
+    });
+
+    it("should announce several providers side by side", () => {
+        const target = new EventTarget();
+        const announcements = listenForAnnouncements(target);
+        const walletless = createE2EProvider();
+        const fakeMetaMask = createE2EProvider();
+
+        announceE2EProvider(walletless, {}, target);
+        announceE2EProvider(fakeMetaMask, { name: "MetaMask", rdns: "io.metamask" }, target);
+        announcements.length = 0;
+        target.dispatchEvent(new Event("eip6963:requestProvider"));
+
+        expect(announcements.map((a) => a.info.rdns)).toEqual([
+            DEFAULT_PROVIDER_INFO.rdns,
+            "io.metamask",
+        ]);
+        expect(announcements[1]!.provider).toBe(fakeMetaMask);
+    });
+
+    it("should stop re-announcing after unsubscribing", () => {
+        const target = new EventTarget();
+        const handler = vi.fn();
+        target.addEventListener("eip6963:announceProvider", handler);
+
+        const stop = announceE2EProvider(createE2EProvider(), {}, target);
+        stop();
+        target.dispatchEvent(new Event("eip6963:requestProvider"));
+
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw outside a browser when no target is given", () => {
+        expect(() => announceE2EProvider(createE2EProvider())).toThrow(
+            "announceE2EProvider requires a browser window",
+        );
+    });
+});
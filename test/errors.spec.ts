@@ -0,0 +1,222 @@
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    createPublicClient,
+    custom,
+    encodeErrorResult,
+    parseAbi,
+    RpcRequestError,
+    TransactionExecutionError,
+    UnknownRpcError,
+} from "viem";
+import { mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { RpcHandlers } from "./utils/mockRpc.js";
+import { toProviderRpcError } from "../src/errors.js";
+import { addMiddleware, createE2EProvider } from "../src/provider.js";
+import { ProviderErrorCode, ProviderRpcError } from "../src/types.js";
+import { failWith, mockRpc } from "./utils/mockRpc.js";
+
+const ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const abi = parseAbi(["function claim()"]);
+
+const REVERT_DATA = encodeErrorResult({
+    abi: parseAbi(["error Error(string)"]),
+    errorName: "Error",
+    args: ["already claimed"],
+});
+
+const REVERT = { code: 3, message: "execution reverted: already claimed", data: REVERT_DATA };
+
+/**
+ * Node answering what viem needs to prepare a transaction, failing the other methods
+ * (eth_call, eth_estimateGas, eth_sendRawTransaction)
+ */
+const PREPARE_HANDLERS: RpcHandlers = {
+    eth_chainId: () => "0x1",
+    eth_getTransactionCount: () => "0x0",
+    eth_getBlockByNumber: () => ({ number: "0x1", baseFeePerGas: "0x1" }),
+    eth_maxPriorityFeePerGas: () => "0x1",
+};
+
+describe("toProviderRpcError", () => {
+    it("should keep ProviderRpcErrors as they are", () => {
+        const error = new ProviderRpcError(4001, "User rejected");
+
+        expect(toProviderRpcError(error)).toBe(error);
+    });
+
+    it("should unwrap viem errors to the upstream code, message and data", () => {
+        const rpcError = new RpcRequestError({ body: {}, error: REVERT, url: "http://localhost" });
+        const wrapped = new TransactionExecutionError(rpcError, {
+            account: { address: ADDRESS, type: "json-rpc" },
+        });
+
+        const error = toProviderRpcError(wrapped);
+
+        expect(error).toBeInstanceOf(ProviderRpcError);
+        expect(error).toMatchObject(REVERT);
+    });
+
+    it("should keep the code and data of plain errors", () => {
+        const error = toProviderRpcError(
+            Object.assign(new Error("nonce too low"), { code: -32003, data: "0x01" }),
+        );
+
+        expect(error).toMatchObject({ code: -32003, message: "nonce too low", data: "0x01" });
+    });
+
+    it("should fail errors without a code as internal errors", () => {
+        expect(toProviderRpcError(new TypeError("fetch failed"))).toMatchObject({
+            code: ProviderErrorCode.InternalError,
+            message: "fetch failed",
+        });
+        expect(toProviderRpcError(new BaseError("Something broke."))).toMatchObject({
+            code: ProviderErrorCode.InternalError,
+            message: "Something broke.",
+        });
+        expect(toProviderRpcError("boom")).toMatchObject({
+            code: ProviderErrorCode.InternalError,
+            message: "boom",
+        });
+    });
+
+    it("should fail viem errors without an upstream error with the innermost message", () => {
+        const error = toProviderRpcError(new UnknownRpcError(new TypeError("fetch failed")));
+
+        expect(error).toMatchObject({
+            code: ProviderErrorCode.InternalError,
+            message: "fetch failed",
+        });
+    });
+});
+
+describe("provider errors", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should fail reads with the upstream error and revert data", async () => {
+        mockRpc(PREPARE_HANDLERS, failWith(REVERT));
+        const provider = createE2EProvider();
+
+        const error = await provider
+            .request({ method: "eth_call", params: [{ to: ADDRESS }, "latest"] })
+            .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ProviderRpcError);
+        expect(error).toMatchObject(REVERT);
+    });
+
+    it("should let viem decode reverts like with an injected wallet", async () => {
+        mockRpc(PREPARE_HANDLERS, failWith(REVERT));
+        const client = createPublicClient({
+            chain: mainnet,
+            transport: custom(createE2EProvider()),
+        });
+
+        const error = await client
+            .readContract({ address: ADDRESS, abi, functionName: "claim" })
+            .catch((e: unknown) => e);
+
+        const reverted = (error as BaseError).walk(
+            (e) => e instanceof ContractFunctionRevertedError,
+        ) as ContractFunctionRevertedError | null;
+        expect(reverted?.reason).toBe("already claimed");
+    });
+
+    it("should fail transactions with the upstream error of gas estimation", async () => {
+        mockRpc(PREPARE_HANDLERS, failWith(REVERT));
+        const provider = createE2EProvider();
+
+        const error = await provider
+            .request({
+                method: "eth_sendTransaction",
+                params: [{ to: ADDRESS, data: "0x4e71d92d" }],
+            })
+            .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ProviderRpcError);
+        expect(error).toMatchObject(REVERT);
+    });
+
+    it("should fail transactions rejected by the node with its code", async () => {
+        mockRpc(
+            { ...PREPARE_HANDLERS, eth_estimateGas: () => "0x5208" },
+            failWith({ code: -32003, message: "nonce too low" }),
+        );
+        const provider = createE2EProvider();
+
+        await expect(
+            provider.request({ method: "eth_sendTransaction", params: [{ to: ADDRESS }] }),
+        ).rejects.toMatchObject({
+            name: "ProviderRpcError",
+            code: ProviderErrorCode.TransactionRejected,
+            message: "nonce too low",
+        });
+    });
+
+    it("should fail unreachable nodes with an internal error", async () => {
+        vi.spyOn(global, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+        const provider = createE2EProvider();
+
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+            name: "ProviderRpcError",
+            code: ProviderErrorCode.InternalError,
+            message: "fetch failed",
+        });
+    });
+
+    it("should fail unreachable transports with an internal error", async () => {
+        const provider = createE2EProvider({
+            transport: {
+                1: custom({
+                    request: async () => {
+                        throw new TypeError("fetch failed");
+                    },
+                }),
+            },
+        });
+
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+            code: ProviderErrorCode.InternalError,
+            message: "fetch failed",
+        });
+    });
+
+    it("should fail switching to an unknown chain with 4902", async () => {
+        const provider = createE2EProvider();
+
+        const error = await provider
+            .request({ method: "wallet_switchEthereumChain", params: [{ chainId: "0x89" }] })
+            .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ProviderRpcError);
+        expect(error).toMatchObject({ code: ProviderErrorCode.UnrecognizedChainId });
+    });
+
+    it("should convert errors thrown by middleware and pass ProviderRpcErrors to it", async () => {
+        mockRpc(PREPARE_HANDLERS, failWith(REVERT));
+        const provider = createE2EProvider();
+        const seen: unknown[] = [];
+        addMiddleware(provider, async (request, next) => {
+            if (request.method === "eth_blockNumber") throw new Error("not today");
+            return next().catch((error: unknown) => {
+                seen.push(error);
+                throw error;
+            });
+        });
+
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+            name: "ProviderRpcError",
+            code: ProviderErrorCode.InternalError,
+            message: "not today",
+        });
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: ADDRESS }, "latest"] }),
+        ).rejects.toThrow();
+        expect(seen[0]).toBeInstanceOf(ProviderRpcError);
+    });
+});
@@ -0,0 +1,272 @@
+import { arbitrum, mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { RpcHandlers } from "./utils/mockRpc.js";
+import {
+    addFault,
+    clearFaults,
+    createE2EProvider,
+    disconnect,
+    getRecording,
+    removeFault,
+    setChain,
+} from "../src/provider.js";
+import { ProviderErrorCode } from "../src/types.js";
+import { mockRpc } from "./utils/mockRpc.js";
+
+const ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+/**
+ * Anvil node answering a few reads
+ */
+const NODE_HANDLERS: RpcHandlers = {
+    eth_blockNumber: () => "0x10",
+    eth_getBalance: () => "0x1",
+    eth_call: () => "0x1",
+};
+
+function createProvider(): ReturnType<typeof createE2EProvider> {
+    return createE2EProvider({
+        chains: [mainnet, arbitrum],
+        rpcUrls: { 1: "http://localhost:8545", 42161: "http://localhost:8546" },
+    });
+}
+
+describe("fault injection", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it("should fail matching requests with the given error", async () => {
+        const mockFetch = mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, {
+            method: "eth_call",
+            error: { code: -32603, message: "upstream unavailable", data: "0x01" },
+        });
+
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: ADDRESS }, "latest"] }),
+        ).rejects.toMatchObject({ code: -32603, message: "upstream unavailable", data: "0x01" });
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should match methods by glob", async () => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, { method: "eth_get*", error: { code: -32005 } });
+
+        await expect(
+            provider.request({ method: "eth_getBalance", params: [ADDRESS, "latest"] }),
+        ).rejects.toMatchObject({ code: -32005, message: "Simulated error for eth_getBalance." });
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+    });
+
+    it("should apply to wallet and signing methods too", async () => {
+        const provider = createProvider();
+        addFault(provider, {
+            method: "eth_requestAccounts",
+            error: { code: ProviderErrorCode.UserRejectedRequest },
+        });
+        addFault(provider, {
+            method: "personal_sign",
+            error: { code: ProviderErrorCode.Unauthorized },
+        });
+
+        await expect(provider.request({ method: "eth_requestAccounts" })).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+        });
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", ADDRESS] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.Unauthorized });
+    });
+
+    it("should only match the given chain", async () => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, { method: "*", chainId: arbitrum.id, error: { code: -32603 } });
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+        setChain(provider, arbitrum.id);
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+            code: -32603,
+        });
+    });
+
+    it("should only match params satisfying the predicate", async () => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, {
+            method: "eth_getBalance",
+            params: ([address]) => address === ADDRESS,
+            error: { code: -32603 },
+        });
+
+        await expect(
+            provider.request({ method: "eth_getBalance", params: [ADDRESS, "latest"] }),
+        ).rejects.toMatchObject({ code: -32603 });
+        expect(
+            await provider.request({
+                method: "eth_getBalance",
+                params: [mainnet.contracts.multicall3.address, "latest"],
+            }),
+        ).toBe("0x1");
+    });
+
+    it("should add latency", async () => {
+        vi.useFakeTimers();
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, { method: "eth_blockNumber", latency: 1000 });
+        const settled = vi.fn();
+
+        const request = provider.request({ method: "eth_blockNumber" }).then(settled);
+        await vi.advanceTimersByTimeAsync(999);
+        expect(settled).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1);
+        await request;
+
+        expect(settled).toHaveBeenCalledWith("0x10");
+    });
+
+    it("should never answer timed out requests", async () => {
+        vi.useFakeTimers();
+        const mockFetch = mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, { method: "eth_blockNumber", timeout: true });
+        const settled = vi.fn();
+
+        void provider.request({ method: "eth_blockNumber" }).then(settled, settled);
+        await vi.advanceTimersByTimeAsync(60_000);
+
+        expect(settled).not.toHaveBeenCalled();
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should fail requests once a timeout duration has passed", async () => {
+        vi.useFakeTimers();
+        const mockFetch = mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, { method: "eth_blockNumber", timeout: 5000 });
+
+        const request = provider.request({ method: "eth_blockNumber" });
+        const assertion = expect(request).rejects.toMatchObject({
+            code: ProviderErrorCode.InternalError,
+            message: "Request eth_blockNumber timed out after 5000ms.",
+        });
+        await vi.advanceTimersByTimeAsync(5000);
+
+        await assertion;
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ["removed", removeFault],
+        [
+            "cleared",
+            (provider: ReturnType<typeof createE2EProvider>): void => clearFaults(provider),
+        ],
+    ])("should answer held requests once their rule is %s", async (_case, release) => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        const id = addFault(provider, { method: "eth_blockNumber", timeout: true });
+
+        const settled = vi.fn();
+        const request = provider.request({ method: "eth_blockNumber" });
+        void request.then(settled, settled);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(settled).not.toHaveBeenCalled();
+        release(provider, id);
+
+        await expect(request).resolves.toBe("0x10");
+    });
+
+    it("should fail held requests with 4900 on disconnect", async () => {
+        const provider = createProvider();
+        addFault(provider, { method: "eth_blockNumber", timeout: true });
+
+        const request = provider.request({ method: "eth_blockNumber" });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        disconnect(provider);
+
+        await expect(request).rejects.toMatchObject({ code: ProviderErrorCode.Disconnected });
+    });
+
+    it("should only fail the Nth matching request", async () => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, { method: "eth_blockNumber", nth: 2, error: { code: -32603 } });
+
+        await expect(provider.request({ method: "eth_blockNumber" })).resolves.toBe("0x10");
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+            code: -32603,
+        });
+        await expect(provider.request({ method: "eth_blockNumber" })).resolves.toBe("0x10");
+    });
+
+    it("should stop applying after the given number of requests", async () => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createE2EProvider({
+            faults: [{ method: "eth_blockNumber", times: 2, error: { code: -32603 } }],
+        });
+
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toThrow();
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toThrow();
+        await expect(provider.request({ method: "eth_blockNumber" })).resolves.toBe("0x10");
+    });
+
+    it("should apply the first matching rule", async () => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        addFault(provider, { method: "eth_blockNumber", error: { code: 1 } });
+        addFault(provider, { method: "*", error: { code: 2 } });
+
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+            code: 1,
+        });
+        await expect(
+            provider.request({ method: "eth_getBalance", params: [ADDRESS, "latest"] }),
+        ).rejects.toMatchObject({ code: 2 });
+    });
+
+    it("should record injected failures", async () => {
+        const provider = createE2EProvider({ record: true });
+        addFault(provider, { method: "eth_blockNumber", error: { code: -32603, message: "down" } });
+
+        await provider.request({ method: "eth_blockNumber" }).catch(() => undefined);
+
+        expect(getRecording(provider)[0]!.error).toEqual({ code: -32603, message: "down" });
+    });
+
+    it("should remove and clear rules", async () => {
+        mockRpc(NODE_HANDLERS);
+        const provider = createProvider();
+        const id = addFault(provider, { method: "eth_blockNumber", error: { code: -32603 } });
+        addFault(provider, { method: "eth_getBalance", error: { code: -32603 } });
+
+        removeFault(provider, id);
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+
+        clearFaults(provider);
+        expect(
+            await provider.request({ method: "eth_getBalance", params: [ADDRESS, "latest"] }),
+        ).toBe("0x1");
+        expect(() => removeFault(provider, id)).toThrow(`No fault with id ${id}.`);
+    });
+
+    it("should throw a helpful error for a provider without fault injection", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => addFault(fakeProvider, { method: "*" })).toThrow(
+            "Provider does not support addFault",
+        );
+        expect(() => clearFaults(fakeProvider)).toThrow("Provider does not support clearFaults");
+    });
+});
@@ -0,0 +1,188 @@
+import { custom } from "viem";
+import { arbitrum, mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { RpcFixture } from "../src/types.js";
+import type { RpcHandlers } from "./utils/mockRpc.js";
+import { fixtureKey } from "../src/fixtures.js";
+import { createE2EProvider, getFixture, setChain } from "../src/provider.js";
+import { ProviderErrorCode } from "../src/types.js";
+import { failWith, mockRpc } from "./utils/mockRpc.js";
+
+const ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+/**
+ * Anvil node answering a few reads, reverting the other calls
+ */
+const NODE_HANDLERS: RpcHandlers = {
+    eth_blockNumber: () => "0x10",
+    eth_getBalance: () => "0xde0b6b3a7640000",
+};
+const revert = failWith({ code: 3, message: "execution reverted", data: "0x" });
+
+describe("fixtureKey", () => {
+    it("should key requests by chain, method and params", () => {
+        expect(fixtureKey(1, "eth_getBalance", [ADDRESS, "latest"])).toBe(
+            `1:eth_getBalance:["${ADDRESS.toLowerCase()}","latest"]`,
+        );
+        expect(fixtureKey(1, "eth_blockNumber")).toBe("1:eth_blockNumber:[]");
+    });
+
+    it("should ignore key order, hex casing and undefined fields", () => {
+        expect(
+            fixtureKey(1, "eth_call", [
+                { to: ADDRESS, data: "0xABCD", value: undefined },
+                "latest",
+            ]),
+        ).toBe(
+            fixtureKey(1, "eth_call", [{ data: "0xabcd", to: ADDRESS.toLowerCase() }, "latest"]),
+        );
+    });
+
+    it("should not lowercase non-hex strings", () => {
+        expect(fixtureKey(1, "eth_getBlockByNumber", ["Latest", false])).toBe(
+            '1:eth_getBlockByNumber:["Latest",false]',
+        );
+    });
+});
+
+describe("read fixtures", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should record upstream responses and JSON-RPC errors", async () => {
+        mockRpc(NODE_HANDLERS, revert);
+        const provider = createE2EProvider({ chains: [mainnet], fixtures: { mode: "record" } });
+
+        await provider.request({ method: "eth_blockNumber" });
+        await provider.request({ method: "eth_getBalance", params: [ADDRESS, "latest"] });
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: ADDRESS }, "latest"] }),
+        ).rejects.toThrow("execution reverted");
+
+        expect(getFixture(provider)).toEqual({
+            "1:eth_blockNumber:[]": { result: "0x10" },
+            [fixtureKey(1, "eth_getBalance", [ADDRESS, "latest"])]: {
+                result: "0xde0b6b3a7640000",
+            },
+            [fixtureKey(1, "eth_call", [{ to: ADDRESS }, "latest"])]: {
+                error: { code: 3, message: "execution reverted", data: "0x" },
+            },
+        });
+    });
+
+    it("should record JSON-RPC errors from transports but not network failures", async () => {
+        const transport = custom({
+            request: async ({ method }) => {
+                if (method === "eth_call") {
+                    throw { code: 3, message: "execution reverted", data: "0x" };
+                }
+                throw new TypeError("fetch failed");
+            },
+        });
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            transport: { 1: transport },
+            fixtures: { mode: "record" },
+        });
+
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: ADDRESS }, "latest"] }),
+        ).rejects.toMatchObject({ code: 3 });
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toThrow();
+
+        expect(getFixture(provider)).toEqual({
+            [fixtureKey(1, "eth_call", [{ to: ADDRESS }, "latest"])]: {
+                error: { code: 3, message: "execution reverted", data: "0x" },
+            },
+        });
+    });
+
+    it("should replay a recorded fixture without a network", async () => {
+        mockRpc(NODE_HANDLERS, revert);
+        const recorder = createE2EProvider({ chains: [mainnet], fixtures: { mode: "record" } });
+        await recorder.request({ method: "eth_getBalance", params: [ADDRESS, "latest"] });
+        await recorder
+            .request({ method: "eth_call", params: [{ to: ADDRESS }, "latest"] })
+            .catch(() => undefined);
+        const fixture = JSON.parse(JSON.stringify(getFixture(recorder))) as RpcFixture;
+        vi.restoreAllMocks();
+        const mockFetch = vi.spyOn(global, "fetch");
+
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            fixtures: { mode: "replay", fixture },
+        });
+
+        expect(
+            await provider.request({
+                method: "eth_getBalance",
+                params: [ADDRESS.toLowerCase(), "latest"],
+            }),
+        ).toBe("0xde0b6b3a7640000");
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: ADDRESS }, "latest"] }),
+        ).rejects.toMatchObject({ code: 3, message: "execution reverted", data: "0x" });
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should fail unmatched requests with a diagnostic", async () => {
+        const fixture: RpcFixture = {
+            [fixtureKey(1, "eth_getBalance", [ADDRESS, "latest"])]: { result: "0x1" },
+        };
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            fixtures: { mode: "replay", fixture },
+        });
+
+        await expect(
+            provider.request({ method: "eth_getBalance", params: [ADDRESS, "0x10"] }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.ResourceNotFound,
+            message: expect.stringContaining(
+                `No fixture for 1:eth_getBalance:["${ADDRESS.toLowerCase()}","0x10"]. Recorded eth_getBalance requests on chain 1:`,
+            ) as unknown,
+        });
+        await expect(provider.request({ method: "eth_blockNumber" })).rejects.toThrow(
+            "No eth_blockNumber requests were recorded on chain 1.",
+        );
+    });
+
+    it("should key replayed reads by the active chain", async () => {
+        const provider = createE2EProvider({
+            chains: [mainnet, arbitrum],
+            fixtures: {
+                mode: "replay",
+                fixture: {
+                    "1:eth_blockNumber:[]": { result: "0x1" },
+                    "42161:eth_blockNumber:[]": { result: "0x2" },
+                },
+            },
+        });
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x1");
+        setChain(provider, arbitrum.id);
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x2");
+    });
+
+    it("should answer wallet methods locally in replay mode", async () => {
+        const mockFetch = vi.spyOn(global, "fetch");
+        const provider = createE2EProvider({ chains: [mainnet], fixtures: { mode: "replay" } });
+
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x1");
+        expect(await provider.request({ method: "eth_accounts" })).toHaveLength(1);
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should throw a helpful error for a provider without fixtures support", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => getFixture(fakeProvider)).toThrow("Provider does not support getFixture");
+    });
+});
@@ -0,0 +1,284 @@
+import type { Hex } from "viem";
+import {
+    concatHex,
+    createPublicClient,
+    encodeErrorResult,
+    keccak256,
+    numberToHex,
+    parseEther,
+    parseGwei,
+    size,
+    toHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { mainnet, optimism } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { MemoryBackendOptions } from "../src/types.js";
+import { ANVIL_ACCOUNTS } from "../src/constants.js";
+import { memoryTransport } from "../src/memory.js";
+import { createE2EProvider, setBalance, setChain } from "../src/provider.js";
+import { ProviderErrorCode } from "../src/types.js";
+
+const ALICE = ANVIL_ACCOUNTS[0]!.address;
+const BOB = ANVIL_ACCOUNTS[1]!.address;
+const EVENT_TOPIC = keccak256(toHex("Answer(uint256)"));
+
+/** Runtime code: emits Answer(42) and returns 42 */
+const ANSWER_RUNTIME = concatHex([
+    "0x602a600052", // mstore(0, 42)
+    "0x7f", // push32 topic
+    EVENT_TOPIC,
+    "0x60206000a1", // log1(0, 32, topic)
+    "0x60206000f3", // return(0, 32)
+]);
+
+const REVERT_DATA = encodeErrorResult({
+    abi: [{ type: "error", name: "Error", inputs: [{ type: "string" }] }],
+    errorName: "Error",
+    args: ["nope"],
+});
+
+/** Runtime code: reverts with Error("nope") appended after the code */
+const REVERT_RUNTIME = concatHex([
+    `0x60${size(REVERT_DATA).toString(16)}600c600039`, // codecopy(0, 12, size)
+    `0x60${size(REVERT_DATA).toString(16)}6000fd`, // revert(0, size)
+    REVERT_DATA,
+]);
+
+/**
+ * Init code deploying the given runtime code
+ */
+function initCode(runtime: Hex): Hex {
+    const length = numberToHex(size(runtime), { size: 1 }).slice(2);
+    // codecopy(0, 11, length); return(0, length)
+    return concatHex([`0x60${length}80600b6000396000f3`, runtime]);
+}
+
+function createMemoryProvider(): ReturnType<typeof createE2EProvider> {
+    return createE2EProvider({ chains: [mainnet], backend: "memory" });
+}
+
+/**
+ * Deploy a contract from the provider's account and return its address
+ */
+async function deploy(provider: ReturnType<typeof createE2EProvider>, runtime: Hex): Promise<Hex> {
+    const hash = await provider.request<Hex>({
+        method: "eth_sendTransaction",
+        params: [{ from: ALICE, data: initCode(runtime) }],
+    });
+    const receipt = await provider.request<{ contractAddress: Hex }>({
+        method: "eth_getTransactionReceipt",
+        params: [hash],
+    });
+    return receipt.contractAddress;
+}
+
+describe("in-memory backend", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should start a funded chain without a node", async () => {
+        const mockFetch = vi.spyOn(global, "fetch");
+        const provider = createMemoryProvider();
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x0");
+        expect(await provider.request({ method: "eth_getBalance", params: [BOB, "latest"] })).toBe(
+            numberToHex(parseEther("10000")),
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should mine signed transactions and return their receipts", async () => {
+        const provider = createMemoryProvider();
+
+        const hash = await provider.request<Hex>({
+            method: "eth_sendTransaction",
+            params: [{ from: ALICE, to: BOB, value: numberToHex(parseEther("1")) }],
+        });
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x1");
+        expect(
+            await provider.request({ method: "eth_getTransactionReceipt", params: [hash] }),
+        ).toMatchObject({
+            transactionHash: hash,
+            blockNumber: "0x1",
+            from: ALICE.toLowerCase(),
+            to: BOB.toLowerCase(),
+            gasUsed: "0x5208",
+            status: "0x1",
+            contractAddress: null,
+        });
+        expect(await provider.request({ method: "eth_getBalance", params: [BOB, "latest"] })).toBe(
+            numberToHex(parseEther("10001")),
+        );
+        expect(
+            await provider.request({
+                method: "eth_getTransactionCount",
+                params: [ALICE, "latest"],
+            }),
+        ).toBe("0x1");
+    });
+
+    it("should deploy contracts, call them and index their logs", async () => {
+        const provider = createMemoryProvider();
+        const address = await deploy(provider, ANSWER_RUNTIME);
+
+        expect(await provider.request({ method: "eth_getCode", params: [address, "latest"] })).toBe(
+            ANSWER_RUNTIME,
+        );
+        expect(
+            await provider.request({ method: "eth_call", params: [{ to: address }, "latest"] }),
+        ).toBe(numberToHex(42, { size: 32 }));
+
+        const hash = await provider.request<Hex>({
+            method: "eth_sendTransaction",
+            params: [{ from: ALICE, to: address }],
+        });
+        const logs = await provider.request({
+            method: "eth_getLogs",
+            params: [{ fromBlock: "0x0", address, topics: [EVENT_TOPIC] }],
+        });
+
+        expect(logs).toEqual([
+            expect.objectContaining({
+                address,
+                topics: [EVENT_TOPIC],
+                data: numberToHex(42, { size: 32 }),
+                transactionHash: hash,
+                blockNumber: "0x2",
+                logIndex: "0x0",
+            }),
+        ]);
+        expect(
+            await provider.request({
+                method: "eth_getLogs",
+                params: [{ fromBlock: "0x0", topics: [keccak256(toHex("Other()"))] }],
+            }),
+        ).toEqual([]);
+    });
+
+    it("should fail reverted calls with code 3 and the revert data", async () => {
+        const provider = createMemoryProvider();
+        const address = await deploy(provider, REVERT_RUNTIME);
+
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: address }, "latest"] }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.ExecutionReverted,
+            message: "execution reverted: nope",
+            data: REVERT_DATA,
+        });
+    });
+
+    it("should estimate gas", async () => {
+        const provider = createMemoryProvider();
+        const address = await deploy(provider, ANSWER_RUNTIME);
+
+        expect(
+            await provider.request({
+                method: "eth_estimateGas",
+                params: [{ from: ALICE, to: BOB }],
+            }),
+        ).toBe("0x5208");
+        const estimate = await provider.request<Hex>({
+            method: "eth_estimateGas",
+            params: [{ from: ALICE, to: address }],
+        });
+        expect(BigInt(estimate)).toBeGreaterThan(21_000n);
+    });
+
+    it("should reject invalid transactions", async () => {
+        const provider = createMemoryProvider();
+        const account = privateKeyToAccount(ANVIL_ACCOUNTS[0]!.privateKey);
+        const raw = await account.signTransaction({
+            chainId: 1,
+            to: BOB,
+            nonce: 5,
+            gas: 21_000n,
+            maxFeePerGas: parseGwei("10"),
+            maxPriorityFeePerGas: 1n,
+        });
+
+        await expect(
+            provider.request({ method: "eth_sendRawTransaction", params: [raw] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.TransactionRejected });
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x0");
+    });
+
+    it("should support block filters", async () => {
+        const provider = createMemoryProvider();
+        const filter = await provider.request<Hex>({ method: "eth_newBlockFilter" });
+
+        await provider.request({
+            method: "eth_sendTransaction",
+            params: [{ from: ALICE, to: BOB, value: "0x1" }],
+        });
+        const block = await provider.request<{ hash: Hex }>({
+            method: "eth_getBlockByNumber",
+            params: ["latest", false],
+        });
+
+        expect(
+            await provider.request({ method: "eth_getFilterChanges", params: [filter] }),
+        ).toEqual([block.hash]);
+        expect(
+            await provider.request({ method: "eth_getFilterChanges", params: [filter] }),
+        ).toEqual([]);
+    });
+
+    it("should support the Anvil cheatcode helpers", async () => {
+        const provider = createMemoryProvider();
+
+        await setBalance(provider, BOB, 5n);
+        await provider.mine(3);
+
+        expect(await provider.request({ method: "eth_getBalance", params: [BOB, "latest"] })).toBe(
+            "0x5",
+        );
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x3");
+        await expect(provider.snapshot()).rejects.toMatchObject({
+            code: ProviderErrorCode.MethodNotFound,
+            message: "Method evm_snapshot is not supported by the in-memory backend.",
+        });
+    });
+
+    it("should keep a separate chain per chain ID", async () => {
+        const provider = createE2EProvider({ chains: [mainnet, optimism], backend: "memory" });
+        await provider.request({
+            method: "eth_sendTransaction",
+            params: [{ from: ALICE, to: BOB, value: "0x1" }],
+        });
+
+        setChain(provider, optimism.id);
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x0");
+    });
+
+    it("should create each chain's transport with a backend factory", async () => {
+        const backend = vi.fn((options: MemoryBackendOptions) =>
+            memoryTransport({ ...options, balance: 5n }),
+        );
+        const provider = createE2EProvider({ chains: [mainnet], backend });
+
+        expect(await provider.request({ method: "eth_getBalance", params: [BOB, "latest"] })).toBe(
+            "0x5",
+        );
+        expect(backend).toHaveBeenCalledWith({
+            chainId: mainnet.id,
+            accounts: expect.arrayContaining([ALICE, BOB]) as string[],
+        });
+    });
+
+    it("should work as a standalone viem transport", async () => {
+        const client = createPublicClient({
+            chain: mainnet,
+            transport: memoryTransport({ chainId: mainnet.id, accounts: [BOB], balance: 7n }),
+        });
+
+        expect(await client.getBalance({ address: BOB })).toBe(7n);
+        expect(await client.getBalance({ address: ALICE })).toBe(0n);
+        expect((await client.getBlock()).number).toBe(0n);
+    });
+});
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createE2EProvider, setRejectPermissions, setSigningAccount } from "../src/provider.js";
+import { ProviderErrorCode, ProviderRpcError } from "../src/types.js";
+
+const ACCOUNT = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const OTHER_ACCOUNT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const ACCOUNTS_PERMISSION = { eth_accounts: {} };
+
+function revoke(provider: ReturnType<typeof createE2EProvider>): Promise<unknown> {
+    return provider.request({ method: "wallet_revokePermissions", params: [ACCOUNTS_PERMISSION] });
+}
+
+describe("EIP-2255 permissions", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should grant eth_accounts restricted to the accounts by default", async () => {
+        vi.useFakeTimers({ now: 1_700_000_000_000 });
+        const provider = createE2EProvider();
+
+        expect(await provider.request({ method: "wallet_getPermissions" })).toEqual([
+            {
+                invoker: "http://localhost",
+                parentCapability: "eth_accounts",
+                caveats: [{ type: "restrictReturnedAccounts", value: [ACCOUNT] }],
+                date: 1_700_000_000_000,
+            },
+        ]);
+    });
+
+    it("should hide the accounts once revoked", async () => {
+        const provider = createE2EProvider();
+        const accountsChanged = vi.fn();
+        provider.on("accountsChanged", accountsChanged);
+
+        expect(await revoke(provider)).toBeNull();
+
+        expect(accountsChanged).toHaveBeenCalledWith([]);
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([]);
+        expect(await provider.request({ method: "wallet_getPermissions" })).toEqual([]);
+
+        // Revoking again changes nothing
+        await revoke(provider);
+        expect(accountsChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fail wallet prompts with 4100 once revoked", async () => {
+        const provider = createE2EProvider();
+        await revoke(provider);
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x68656c6c6f", ACCOUNT] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.Unauthorized });
+        await expect(
+            provider.request({ method: "eth_sendTransaction", params: [{ to: OTHER_ACCOUNT }] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.Unauthorized });
+    });
+
+    it("should grant the permission again on wallet_requestPermissions", async () => {
+        const provider = createE2EProvider();
+        await revoke(provider);
+        const accountsChanged = vi.fn();
+        provider.on("accountsChanged", accountsChanged);
+
+        const permissions = await provider.request({
+            method: "wallet_requestPermissions",
+            params: [ACCOUNTS_PERMISSION],
+        });
+
+        expect(permissions).toEqual([
+            expect.objectContaining({
+                parentCapability: "eth_accounts",
+                caveats: [{ type: "restrictReturnedAccounts", value: [ACCOUNT] }],
+            }),
+        ]);
+        expect(accountsChanged).toHaveBeenCalledWith([ACCOUNT]);
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([ACCOUNT]);
+    });
+
+    it("should grant the permission again on eth_requestAccounts", async () => {
+        const provider = createE2EProvider();
+        await revoke(provider);
+
+        expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([ACCOUNT]);
+        expect(await provider.request({ method: "wallet_getPermissions" })).toHaveLength(1);
+    });
+
+    it("should reject permission requests with 4001 when the reject switch is on", async () => {
+        const provider = createE2EProvider();
+        setRejectPermissions(provider, true);
+
+        // Already granted accounts are returned without a prompt
+        expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([ACCOUNT]);
+
+        await revoke(provider);
+        await expect(provider.request({ method: "eth_requestAccounts" })).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+        });
+        await expect(
+            provider.request({
+                method: "wallet_requestPermissions",
+                params: [ACCOUNTS_PERMISSION],
+            }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.UserRejectedRequest });
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([]);
+
+        setRejectPermissions(provider, false);
+        expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([ACCOUNT]);
+    });
+
+    it("should not tell a revoked dApp about account changes", async () => {
+        const provider = createE2EProvider();
+        await revoke(provider);
+        const accountsChanged = vi.fn();
+        provider.on("accountsChanged", accountsChanged);
+
+        setSigningAccount(provider, 1);
+
+        expect(accountsChanged).not.toHaveBeenCalled();
+        expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([OTHER_ACCOUNT]);
+    });
+
+    it.each([
+        ["a missing parameter", null],
+        ["an empty request", {}],
+        ["an unsupported permission", { eth_accounts: {}, endowment: {} }],
+    ])("should reject %s with -32602", async (_case, param) => {
+        const provider = createE2EProvider();
+
+        for (const method of ["wallet_requestPermissions", "wallet_revokePermissions"]) {
+            const error = await provider
+                .request({ method, params: [param] })
+                .catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(ProviderRpcError);
+            expect(error).toMatchObject({ code: ProviderErrorCode.InvalidParams });
+        }
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([ACCOUNT]);
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setRejectPermissions(fakeProvider, true)).toThrow(
+            "Provider does not support setRejectPermissions",
+        );
+    });
+});
@@ -1,18 +1,66 @@
-import type { Address, Hex } from "viem";
+import type { Address, Hex, TransactionSerialized } from "viem";
+import type { MockInstance } from "vitest";
+import {
+    hexToNumber,
+    numberToHex,
+    parseTransaction,
+    recoverMessageAddress,
+    recoverTransactionAddress,
+} from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { arbitrum, mainnet, optimism } from "viem/chains";
+import { recoverAuthorizationAddress } from "viem/utils";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { ANVIL_ACCOUNTS } from "../src/constants.js";
+import type { E2EProviderConfig, JsonRpcRequest } from "../src/types.js";
+import { ANVIL_ACCOUNTS, DEFAULT_ANVIL_MNEMONIC, deriveAnvilAccounts } from "../src/constants.js";
 import {
+    addAccount,
+    addMiddleware,
+    approveRequest,
+    clearMiddleware,
+    clearRecording,
     createE2EProvider,
     disconnect,
+    exportRecording,
+    getPendingRequests,
+    getRecording,
+    impersonateAccount,
+    increaseTime,
+    mine,
+    reconnect,
+    rejectRequest,
+    removeAccount,
+    removeMiddleware,
+    reorderAccounts,
+    revert,
+    setAddressValidation,
+    setApprovalDelay,
+    setApprovalMode,
+    setBalance,
+    setCapabilities,
     setChain,
+    setCode,
+    setNextBlockTimestamp,
     setRejectSignature,
     setRejectTransaction,
     setSigningAccount,
+    setStorageAt,
+    snapshot,
+    stopImpersonatingAccount,
 } from "../src/provider.js";
-import { E2EProviderConfig, ProviderErrorCode, ProviderRpcError } from "../src/types.js";
+import { ProviderErrorCode, ProviderRpcError } from "../src/types.js";
+import { mockRpc, TRANSACTION_HANDLERS } from "./utils/mockRpc.js";
+
+// Every listed write method is handled, so route an unlisted one as a write
+vi.mock("../src/constants.js", async (importOriginal) => {
+    const constants = await importOriginal<typeof import("../src/constants.js")>();
+    return {
+        ...constants,
+        isWriteMethod: (method: string): boolean =>
+            method === "eth_signUnsupported" || constants.isWriteMethod(method),
+    };
+});
 
 // Anvil's first test private key
 const TEST_PRIVATE_KEY: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
@@ -296,8 +344,11 @@ describe("createE2EProvider", () => {
             const provider = createE2EProvider(baseConfig);
 
             await expect(
-                provider.request({ method: "eth_signTransaction", params: [] }),
-            ).rejects.toThrow("Unsupported");
+                provider.request({ method: "eth_signUnsupported", params: [] }),
+            ).rejects.toMatchObject({
+                code: ProviderErrorCode.UnsupportedMethod,
+                message: "Unsupported write method: eth_signUnsupported",
+            });
         });
     });
 });
@@ -538,6 +589,143 @@ describe("disconnect", () => {
 
         expect(handler).toHaveBeenCalledWith({ code: 4900, message: "Disconnected" });
     });
+
+    it("should reject pending wallet prompts with 4900", async () => {
+        const provider = createE2EProvider({ ...baseConfig, approvalMode: "manual" });
+        const signaturePromise = provider.request({
+            method: "personal_sign",
+            params: ["0x01", TEST_ADDRESS],
+        });
+
+        disconnect(provider);
+
+        await expect(signaturePromise).rejects.toMatchObject({
+            code: ProviderErrorCode.Disconnected,
+            message: "Disconnected",
+        });
+        expect(getPendingRequests(provider)).toEqual([]);
+    });
+
+    describe("connection lifecycle", () => {
+        beforeEach(() => {
+            vi.spyOn(global, "fetch").mockImplementation(
+                async () => new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: "0x10" })),
+            );
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it("should clear the accounts and fail requests with 4900 until the dApp reconnects", async () => {
+            const provider = createE2EProvider(baseConfig);
+            const connectHandler = vi.fn();
+            provider.on("connect", connectHandler);
+            await provider.request({ method: "eth_requestAccounts" });
+
+            disconnect(provider);
+
+            expect(provider.__internal.state.isConnected).toBe(false);
+            expect(await provider.request({ method: "eth_accounts" })).toEqual([]);
+            expect(await provider.request({ method: "eth_chainId" })).toBe("0x1");
+            await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+                code: ProviderErrorCode.Disconnected,
+            });
+            await expect(
+                provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+            ).rejects.toMatchObject({ code: ProviderErrorCode.Disconnected });
+
+            expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([
+                TEST_ADDRESS,
+            ]);
+            expect(connectHandler).toHaveBeenCalledTimes(2);
+            expect(provider.__internal.state.isConnected).toBe(true);
+            expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+        });
+
+        it("should restore the connection and the accounts on reconnect", async () => {
+            const provider = createE2EProvider(baseConfig);
+            disconnect(provider);
+            const connectHandler = vi.fn();
+            const accountsChanged = vi.fn();
+            provider.on("connect", connectHandler);
+            provider.on("accountsChanged", accountsChanged);
+
+            reconnect(provider);
+
+            expect(connectHandler).toHaveBeenCalledWith({ chainId: "0x1" });
+            expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+            expect(await provider.request({ method: "eth_accounts" })).toEqual([TEST_ADDRESS]);
+            expect(accountsChanged).toHaveBeenCalledWith([TEST_ADDRESS]);
+            await expect(
+                provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+            ).resolves.toMatch(/^0x/);
+        });
+
+        it("should restore the connection without the accounts when not auto-authorized", async () => {
+            const provider = createE2EProvider({ ...baseConfig, autoAuthorize: false });
+            await provider.request({ method: "eth_requestAccounts" });
+            disconnect(provider);
+            const accountsChanged = vi.fn();
+            provider.on("accountsChanged", accountsChanged);
+
+            reconnect(provider);
+
+            expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+            expect(await provider.request({ method: "eth_accounts" })).toEqual([]);
+            expect(accountsChanged).not.toHaveBeenCalled();
+        });
+
+        it("should fail requests on a disconnected chain with 4901", async () => {
+            const provider = createE2EProvider({ ...baseConfig, chains: [mainnet, arbitrum] });
+            const disconnectHandler = vi.fn();
+            provider.on("disconnect", disconnectHandler);
+
+            disconnect(provider, 1);
+
+            expect(disconnectHandler).not.toHaveBeenCalled();
+            expect(await provider.request({ method: "eth_accounts" })).toEqual([TEST_ADDRESS]);
+            await expect(provider.request({ method: "eth_blockNumber" })).rejects.toMatchObject({
+                code: ProviderErrorCode.ChainDisconnected,
+                message: "Disconnected from chain 1",
+            });
+
+            // Other chains keep working
+            await provider.request({
+                method: "wallet_switchEthereumChain",
+                params: [{ chainId: "0xa4b1" }],
+            });
+            expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+
+            setChain(provider, 1);
+            reconnect(provider, 1);
+            expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+        });
+    });
+});
+
+describe("autoAuthorize", () => {
+    it("should hide the accounts until the dApp requests them when disabled", async () => {
+        const provider = createE2EProvider({ ...baseConfig, autoAuthorize: false });
+        const accountsChanged = vi.fn();
+        provider.on("accountsChanged", accountsChanged);
+
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([]);
+        expect(await provider.request({ method: "wallet_getPermissions" })).toEqual([]);
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.Unauthorized });
+
+        expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([TEST_ADDRESS]);
+        expect(accountsChanged).toHaveBeenCalledWith([TEST_ADDRESS]);
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([TEST_ADDRESS]);
+    });
+
+    it("should expose the accounts from the start by default", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([TEST_ADDRESS]);
+    });
 });
 
 describe("setSigningAccount", () => {
@@ -680,6 +868,180 @@ describe("setSigningAccount", () => {
         });
     });
 
+    describe("with derived accounts", () => {
+        const CUSTOM_MNEMONIC =
+            "legal winner thank year wave sausage worth useful legal winner thank yellow";
+
+        it("should resolve indices beyond 9 when accountsCount is configured", () => {
+            const provider = createE2EProvider({ ...baseConfig, accountsCount: 20 });
+            const handler = vi.fn();
+            const expected = deriveAnvilAccounts(DEFAULT_ANVIL_MNEMONIC, 20)[15]!;
+
+            provider.on("accountsChanged", handler);
+            setSigningAccount(provider, 15);
+
+            expect(handler).toHaveBeenCalledWith([expected.address]);
+            expect(provider.__internal.anvilAccounts).toHaveLength(20);
+        });
+
+        it("should resolve derived addresses", () => {
+            const provider = createE2EProvider({ ...baseConfig, accountsCount: 20 });
+            const expected = deriveAnvilAccounts(DEFAULT_ANVIL_MNEMONIC, 20)[19]!;
+
+            setSigningAccount(provider, expected.address);
+
+            expect(provider.__internal.account.address).toBe(expected.address);
+        });
+
+        it("should throw for indices outside the derived set", () => {
+            const provider = createE2EProvider({ ...baseConfig, accountsCount: 20 });
+
+            expect(() => setSigningAccount(provider, 20)).toThrow(
+                "Account index 20 is not one of the provider's derived accounts (0-19).",
+            );
+        });
+
+        it("should default to the first account of a custom mnemonic", async () => {
+            const derived = deriveAnvilAccounts(CUSTOM_MNEMONIC, 3);
+            const provider = createE2EProvider({
+                chains: [mainnet],
+                mnemonic: CUSTOM_MNEMONIC,
+                accountsCount: 3,
+            });
+
+            expect(await provider.request({ method: "eth_accounts" })).toEqual([
+                derived[0]!.address,
+            ]);
+
+            setSigningAccount(provider, 2);
+            expect(provider.__internal.account.address).toBe(derived[2]!.address);
+        });
+
+        it("should not resolve default Anvil addresses with a custom mnemonic", () => {
+            const provider = createE2EProvider({ ...baseConfig, mnemonic: CUSTOM_MNEMONIC });
+
+            expect(() => setSigningAccount(provider, ANVIL_ACCOUNTS[1]!.address)).toThrow(
+                `Address ${ANVIL_ACCOUNTS[1]!.address} is not one of the provider's derived accounts.`,
+            );
+        });
+
+        it("should prefer an explicit account over the mnemonic's first account", async () => {
+            const provider = createE2EProvider({ ...baseConfig, mnemonic: CUSTOM_MNEMONIC });
+
+            expect(await provider.request({ method: "eth_accounts" })).toEqual([TEST_ADDRESS]);
+        });
+    });
+
+    describe("by impersonation", () => {
+        const WHALE: Address = "0x28C6c06298d514Db089934071355E5743bf21d60";
+
+        it("should expose the impersonated address through eth_accounts and accountsChanged", async () => {
+            const provider = createE2EProvider(baseConfig);
+            const handler = vi.fn();
+
+            provider.on("accountsChanged", handler);
+            setSigningAccount(provider, { impersonate: WHALE });
+
+            expect(handler).toHaveBeenCalledWith([WHALE]);
+            expect(await provider.request({ method: "eth_accounts" })).toEqual([WHALE]);
+            expect(provider.__internal.account).toEqual({ address: WHALE, type: "json-rpc" });
+            expect(provider.__internal.impersonation).toEqual({ impersonate: WHALE });
+        });
+
+        it("should impersonate on the current RPC and send an unsigned transaction", async () => {
+            const mockFetch = mockRpc({
+                ...TRANSACTION_HANDLERS,
+                anvil_impersonateAccount: () => null,
+                eth_sendTransaction: () => `0x${"11".repeat(32)}`,
+            });
+            const provider = createE2EProvider(baseConfig);
+            setSigningAccount(provider, { impersonate: WHALE });
+
+            const hash = await provider.request({
+                method: "eth_sendTransaction",
+                params: [{ from: WHALE, to: TEST_ADDRESS, value: "0x1" }],
+            });
+
+            expect(hash).toBe(`0x${"11".repeat(32)}`);
+            const calls = mockFetch.mock.calls.map(
+                ([url, init]) => [url, JSON.parse(init?.body as string) as JsonRpcRequest] as const,
+            );
+            expect(calls[0]![0]).toBe("http://localhost:8545");
+            expect(calls[0]![1]).toMatchObject({
+                method: "anvil_impersonateAccount",
+                params: [WHALE],
+            });
+            expect(calls.at(-1)![1]).toMatchObject({
+                method: "eth_sendTransaction",
+                params: [expect.objectContaining({ from: WHALE, to: TEST_ADDRESS, value: "0x1" })],
+            });
+            expect(calls.some(([, body]) => body.method === "eth_sendRawTransaction")).toBe(false);
+        });
+
+        it("should reject signature requests with 4200 by default", async () => {
+            const provider = createE2EProvider(baseConfig);
+            setSigningAccount(provider, { impersonate: WHALE });
+
+            await expect(
+                provider.request({ method: "personal_sign", params: ["0x48656c6c6f", WHALE] }),
+            ).rejects.toMatchObject({
+                code: ProviderErrorCode.UnsupportedMethod,
+                message: `Cannot sign with impersonated account ${WHALE}: no private key available.`,
+            });
+        });
+
+        it("should reject signature requests with a configured error", async () => {
+            const provider = createE2EProvider(baseConfig);
+            setSigningAccount(provider, {
+                impersonate: WHALE,
+                onSign: { code: 4001, message: "Multisig signatures are not supported" },
+            });
+
+            await expect(
+                provider.request({ method: "eth_sign", params: [WHALE, "0x48656c6c6f"] }),
+            ).rejects.toMatchObject({
+                code: 4001,
+                message: "Multisig signatures are not supported",
+            });
+        });
+
+        it("should return a configured stub signature", async () => {
+            const provider = createE2EProvider(baseConfig);
+            setSigningAccount(provider, { impersonate: WHALE, onSign: "0x1234" });
+
+            await expect(
+                provider.request({ method: "personal_sign", params: ["0x48656c6c6f", WHALE] }),
+            ).resolves.toBe("0x1234");
+        });
+
+        it.each([
+            ["eth_signTransaction", [{ from: WHALE, to: TEST_ADDRESS, value: "0x1" }]],
+            ["wallet_signAuthorization", [{ from: WHALE, address: TEST_ADDRESS }]],
+        ])("should not return the stub signature for %s", async (method, params) => {
+            const provider = createE2EProvider(baseConfig);
+            setSigningAccount(provider, { impersonate: WHALE, onSign: "0x1234" });
+
+            await expect(provider.request({ method, params })).rejects.toMatchObject({
+                code: ProviderErrorCode.UnsupportedMethod,
+                message: `Cannot sign with impersonated account ${WHALE}: no private key available.`,
+            });
+        });
+
+        it("should stop impersonating when switching back to a regular account", async () => {
+            const provider = createE2EProvider(baseConfig);
+            setSigningAccount(provider, { impersonate: WHALE });
+            setSigningAccount(provider, 0);
+
+            expect(provider.__internal.impersonation).toBeUndefined();
+            await expect(
+                provider.request({
+                    method: "personal_sign",
+                    params: ["0x48656c6c6f", TEST_ADDRESS],
+                }),
+            ).resolves.toMatch(/^0x[a-f0-9]+$/i);
+        });
+    });
+
     describe("error cases", () => {
         it("should throw for invalid string length", () => {
             const provider = createE2EProvider(baseConfig);
@@ -732,166 +1094,1873 @@ describe("setSigningAccount", () => {
     });
 });
 
-describe("setRejectSignature", () => {
-    it("should reject personal_sign with 4001 error when enabled", async () => {
+describe("eth_signTransaction", () => {
+    const ACCESS_LIST = [
+        {
+            address: "0x70997970c51812dc3a010c7d01b50e0d17dc79c8",
+            storageKeys: [`0x${"00".repeat(32)}`],
+        },
+    ] as const;
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    async function signTransaction(
+        provider: ReturnType<typeof createE2EProvider>,
+        tx: Record<string, unknown>,
+    ): Promise<TransactionSerialized> {
+        return provider.request<TransactionSerialized>({
+            method: "eth_signTransaction",
+            params: [{ from: TEST_ADDRESS, to: TEST_ADDRESS, value: "0x1", ...tx }],
+        });
+    }
+
+    it("should fill missing fields from the RPC and sign an EIP-1559 transaction", async () => {
+        const mockFetch = mockRpc({
+            ...TRANSACTION_HANDLERS,
+            eth_getTransactionCount: () => "0x7",
+        });
         const provider = createE2EProvider(baseConfig);
 
-        setRejectSignature(provider, true);
+        const serialized = await signTransaction(provider, {});
 
-        await expect(
-            provider.request({
-                method: "personal_sign",
-                params: ["0x48656c6c6f", TEST_ADDRESS],
-            }),
-        ).rejects.toMatchObject({
-            code: ProviderErrorCode.UserRejectedRequest,
-            message: "User rejected the signature request.",
+        expect(parseTransaction(serialized)).toMatchObject({
+            type: "eip1559",
+            chainId: 1,
+            nonce: 7,
+            gas: 21000n,
+            to: TEST_ADDRESS.toLowerCase(),
+            value: 1n,
         });
+        await expect(
+            recoverTransactionAddress({ serializedTransaction: serialized }),
+        ).resolves.toBe(TEST_ADDRESS);
+        const methods = mockFetch.mock.calls.map(
+            ([, init]) => (JSON.parse(init?.body as string) as JsonRpcRequest).method,
+        );
+        expect(methods).not.toContain("eth_sendRawTransaction");
     });
 
-    it("should reject eth_sign with 4001 error when enabled", async () => {
+    it("should sign a legacy transaction when gasPrice is given", async () => {
+        mockRpc(TRANSACTION_HANDLERS);
         const provider = createE2EProvider(baseConfig);
 
-        setRejectSignature(provider, true);
+        const serialized = await signTransaction(provider, {
+            gasPrice: "0x3b9aca00",
+            nonce: "0x2",
+        });
 
-        await expect(
-            provider.request({
-                method: "eth_sign",
-                params: [TEST_ADDRESS, "0x48656c6c6f"],
-            }),
-        ).rejects.toMatchObject({
-            code: ProviderErrorCode.UserRejectedRequest,
-            message: "User rejected the signature request.",
+        expect(parseTransaction(serialized)).toMatchObject({
+            type: "legacy",
+            gasPrice: 1_000_000_000n,
+            nonce: 2,
         });
     });
 
-    it("should reject eth_signTypedData_v4 with 4001 error when enabled", async () => {
+    it("should sign an EIP-2930 transaction when gasPrice and accessList are given", async () => {
+        mockRpc(TRANSACTION_HANDLERS);
         const provider = createE2EProvider(baseConfig);
 
-        setRejectSignature(provider, true);
-
-        const typedData = {
-            domain: { name: "Test", version: "1", chainId: 1 },
-            types: { Person: [{ name: "name", type: "string" }] },
-            primaryType: "Person",
-            message: { name: "Alice" },
-        };
+        const serialized = await signTransaction(provider, {
+            gasPrice: "0x3b9aca00",
+            accessList: ACCESS_LIST,
+        });
 
-        await expect(
-            provider.request({
-                method: "eth_signTypedData_v4",
-                params: [TEST_ADDRESS, JSON.stringify(typedData)],
-            }),
-        ).rejects.toMatchObject({
-            code: ProviderErrorCode.UserRejectedRequest,
-            message: "User rejected the signature request.",
+        expect(parseTransaction(serialized)).toMatchObject({
+            type: "eip2930",
+            accessList: ACCESS_LIST,
         });
     });
 
-    it("should allow signing when disabled", async () => {
+    it("should reject with 4001 when transactions are rejected", async () => {
+        const mockFetch = mockRpc(TRANSACTION_HANDLERS);
         const provider = createE2EProvider(baseConfig);
+        setRejectTransaction(provider, true);
 
-        setRejectSignature(provider, true);
-        setRejectSignature(provider, false);
-
-        // Should work - personal_sign returns a signature
-        const signature = await provider.request<Hex>({
-            method: "personal_sign",
-            params: ["0x48656c6c6f", TEST_ADDRESS],
+        await expect(signTransaction(provider, {})).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
         });
-        expect(signature).toMatch(/^0x[a-f0-9]+$/i);
+        expect(mockFetch).not.toHaveBeenCalled();
     });
 
-    it("should throw for provider without __internal", () => {
-        const fakeProvider = {
-            emit: vi.fn(),
-            on: vi.fn(),
-            removeListener: vi.fn(),
-            request: vi.fn(),
-        };
+    it("should wait for approval as a transaction prompt", async () => {
+        mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider({ ...baseConfig, approvalMode: "manual" });
 
-        expect(() => setRejectSignature(fakeProvider, true)).toThrow(
-            "Provider does not support setRejectSignature",
-        );
+        const promise = signTransaction(provider, {});
+        const [pending] = getPendingRequests(provider);
+        expect(pending).toMatchObject({
+            type: "transaction",
+            method: "eth_signTransaction",
+            decoded: { address: TEST_ADDRESS },
+        });
+
+        approveRequest(provider, pending!.id);
+        await expect(promise).resolves.toMatch(/^0x02/);
     });
 
-    it("should update internal state", () => {
+    it("should fail for impersonated accounts", async () => {
+        const whale: Address = "0x28C6c06298d514Db089934071355E5743bf21d60";
         const provider = createE2EProvider(baseConfig);
+        setSigningAccount(provider, { impersonate: whale });
 
-        expect(provider.__internal.rejectSignature).toBe(false);
+        await expect(
+            provider.request({ method: "eth_signTransaction", params: [{ from: whale }] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.UnsupportedMethod });
+    });
+});
 
-        setRejectSignature(provider, true);
-        expect(provider.__internal.rejectSignature).toBe(true);
+describe("transaction types", () => {
+    const ACCESS_LIST = [
+        {
+            address: "0x70997970c51812dc3a010c7d01b50e0d17dc79c8",
+            storageKeys: [`0x${"00".repeat(31)}01`],
+        },
+    ] as const;
 
-        setRejectSignature(provider, false);
-        expect(provider.__internal.rejectSignature).toBe(false);
+    afterEach(() => {
+        vi.restoreAllMocks();
     });
-});
 
-describe("setRejectTransaction", () => {
-    it("should reject eth_sendTransaction with 4001 error when enabled", async () => {
+    /**
+     * Send a transaction and return the raw transaction that reached the node
+     */
+    async function sendTransaction(
+        provider: ReturnType<typeof createE2EProvider>,
+        mockFetch: MockInstance<typeof fetch>,
+        tx: Record<string, unknown>,
+    ): Promise<TransactionSerialized> {
+        await provider.request({
+            method: "eth_sendTransaction",
+            params: [{ from: TEST_ADDRESS, to: TEST_ADDRESS, value: "0x1", ...tx }],
+        });
+        return mockFetch.mock.calls
+            .map(([, init]) => JSON.parse(init?.body as string) as JsonRpcRequest)
+            .find((body) => body.method === "eth_sendRawTransaction")!
+            .params![0] as TransactionSerialized;
+    }
+
+    it.each([
+        ["0x0", "legacy"],
+        ["0x1", "eip2930"],
+        ["0x2", "eip1559"],
+    ])("should send type %s as a %s transaction", async (type, expected) => {
+        const mockFetch = mockRpc({ ...TRANSACTION_HANDLERS, eth_gasPrice: () => "0x3b9aca00" });
         const provider = createE2EProvider(baseConfig);
 
-        setRejectTransaction(provider, true);
+        const raw = await sendTransaction(provider, mockFetch, { type });
 
-        await expect(
-            provider.request({
-                method: "eth_sendTransaction",
-                params: [{ from: TEST_ADDRESS, to: TEST_ADDRESS, value: "0x1" }],
-            }),
-        ).rejects.toMatchObject({
-            code: ProviderErrorCode.UserRejectedRequest,
-            message: "User rejected the transaction request.",
-        });
+        expect(parseTransaction(raw).type).toBe(expected);
     });
 
-    it("should allow transactions when disabled (verifies rejection is lifted)", () => {
+    it("should keep the access list", async () => {
+        const mockFetch = mockRpc(TRANSACTION_HANDLERS);
         const provider = createE2EProvider(baseConfig);
 
-        // Enable then disable rejection
-        setRejectTransaction(provider, true);
-        setRejectTransaction(provider, false);
+        const raw = await sendTransaction(provider, mockFetch, {
+            type: "0x2",
+            accessList: ACCESS_LIST,
+        });
 
-        // Verify the internal state is correctly toggled
-        expect(provider.__internal.rejectTransaction).toBe(false);
+        expect(parseTransaction(raw)).toMatchObject({ type: "eip1559", accessList: ACCESS_LIST });
     });
 
-    it("should throw for provider without __internal", () => {
-        const fakeProvider = {
-            emit: vi.fn(),
+    it("should send type 0x4 with its authorization list", async () => {
+        const mockFetch = mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider(baseConfig);
+        const authority = privateKeyToAccount(ANVIL_ACCOUNTS[1]!.privateKey);
+        const authorization = await authority.signAuthorization({
+            address: "0x0000000000000000000000000000000000000001",
+            chainId: 1,
+            nonce: 0,
+        });
+
+        const raw = await sendTransaction(provider, mockFetch, {
+            type: "0x4",
+            authorizationList: [
+                {
+                    address: authorization.address,
+                    chainId: numberToHex(authorization.chainId),
+                    nonce: numberToHex(authorization.nonce),
+                    r: authorization.r,
+                    s: authorization.s,
+                    yParity: numberToHex(authorization.yParity!),
+                },
+            ],
+        });
+
+        expect(parseTransaction(raw)).toMatchObject({
+            type: "eip7702",
+            authorizationList: [
+                expect.objectContaining({
+                    address: authorization.address,
+                    chainId: 1,
+                    nonce: 0,
+                    r: authorization.r,
+                    s: authorization.s,
+                }),
+            ],
+        });
+    });
+
+    it("should accept a chainId matching the active chain", async () => {
+        const mockFetch = mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider(baseConfig);
+
+        const raw = await sendTransaction(provider, mockFetch, { chainId: "0x1" });
+
+        expect(parseTransaction(raw).chainId).toBe(1);
+    });
+
+    it.each(["eth_sendTransaction", "eth_signTransaction"])(
+        "should reject %s with a chainId for another chain",
+        async (method) => {
+            const mockFetch = mockRpc(TRANSACTION_HANDLERS);
+            const provider = createE2EProvider(baseConfig);
+
+            const error = await provider
+                .request({ method, params: [{ from: TEST_ADDRESS, chainId: "0xa4b1" }] })
+                .catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(ProviderRpcError);
+            expect(error).toMatchObject({
+                code: ProviderErrorCode.InvalidParams,
+                message:
+                    'Invalid chainId: provided chainId "0xa4b1" must match the active chainId "0x1".',
+            });
+            expect(mockFetch).not.toHaveBeenCalled();
+        },
+    );
+
+    it("should reject unsupported transaction types", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        await expect(
+            provider.request({
+                method: "eth_sendTransaction",
+                params: [{ from: TEST_ADDRESS, type: "0x3" }],
+            }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.InvalidParams,
+            message: "Unsupported transaction type: 0x3.",
+        });
+    });
+});
+
+describe("EIP-7702 authorizations", () => {
+    const DELEGATE: Address = "0x0000000000000000000000000000000000000001";
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    async function recoverAuthority(authorization: Record<string, Hex>): Promise<Address> {
+        return recoverAuthorizationAddress({
+            authorization: {
+                address: authorization.address as Address,
+                chainId: hexToNumber(authorization.chainId!),
+                nonce: hexToNumber(authorization.nonce!),
+                r: authorization.r!,
+                s: authorization.s!,
+                yParity: hexToNumber(authorization.yParity!),
+            },
+        });
+    }
+
+    it("should sign an authorization with the active account and fill the nonce", async () => {
+        const mockFetch = mockRpc({
+            ...TRANSACTION_HANDLERS,
+            eth_getTransactionCount: () => "0x5",
+        });
+        const provider = createE2EProvider(baseConfig);
+
+        const authorization = await provider.request<Record<string, Hex>>({
+            method: "wallet_signAuthorization",
+            params: [{ address: DELEGATE }],
+        });
+
+        expect(authorization).toMatchObject({ address: DELEGATE, chainId: "0x1", nonce: "0x5" });
+        await expect(recoverAuthority(authorization)).resolves.toBe(TEST_ADDRESS);
+        const [, init] = mockFetch.mock.calls[0]!;
+        expect(JSON.parse(init?.body as string)).toMatchObject({
+            method: "eth_getTransactionCount",
+            params: [TEST_ADDRESS, "pending"],
+        });
+    });
+
+    it("should use the next nonce when the signer executes the authorization", async () => {
+        mockRpc({ ...TRANSACTION_HANDLERS, eth_getTransactionCount: () => "0x5" });
+        const provider = createE2EProvider(baseConfig);
+
+        const authorization = await provider.request<Record<string, Hex>>({
+            method: "wallet_signAuthorization",
+            params: [{ address: DELEGATE, executor: "self" }],
+        });
+
+        expect(authorization.nonce).toBe("0x6");
+    });
+
+    it("should sign with the requested account, chain and nonce", async () => {
+        const mockFetch = mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider(baseConfig);
+        addAccount(provider, 1);
+
+        const authorization = await provider.request<Record<string, Hex>>({
+            method: "wallet_signAuthorization",
+            params: [
+                {
+                    from: ANVIL_ACCOUNTS[1]!.address,
+                    address: DELEGATE,
+                    chainId: "0x0",
+                    nonce: "0x2",
+                },
+            ],
+        });
+
+        expect(authorization).toMatchObject({ chainId: "0x0", nonce: "0x2" });
+        await expect(recoverAuthority(authorization)).resolves.toBe(ANVIL_ACCOUNTS[1]!.address);
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should reject with 4001 when signatures are rejected", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setRejectSignature(provider, true);
+
+        await expect(
+            provider.request({
+                method: "wallet_signAuthorization",
+                params: [{ address: DELEGATE }],
+            }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.UserRejectedRequest });
+    });
+
+    it("should wait for approval as a signature prompt", async () => {
+        const provider = createE2EProvider({ ...baseConfig, approvalMode: "manual" });
+
+        const promise = provider.request({
+            method: "wallet_signAuthorization",
+            params: [{ address: DELEGATE, chainId: "0x1", nonce: "0x0" }],
+        });
+        const [pending] = getPendingRequests(provider);
+        expect(pending).toMatchObject({
+            type: "signature",
+            method: "wallet_signAuthorization",
+            decoded: { authorization: { address: DELEGATE } },
+        });
+
+        rejectRequest(provider, pending!.id);
+        await expect(promise).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+        });
+    });
+});
+
+describe("multiple authorized accounts", () => {
+    const SECOND_ADDRESS = ANVIL_ACCOUNTS[1]!.address;
+    const THIRD_ADDRESS = ANVIL_ACCOUNTS[2]!.address;
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should append accounts and emit the full list", async () => {
+        const provider = createE2EProvider(baseConfig);
+        const handler = vi.fn();
+        provider.on("accountsChanged", handler);
+
+        addAccount(provider, 1);
+        addAccount(provider, ANVIL_ACCOUNTS[2]!.privateKey);
+
+        expect(handler.mock.calls).toEqual([
+            [[TEST_ADDRESS, SECOND_ADDRESS]],
+            [[TEST_ADDRESS, SECOND_ADDRESS, THIRD_ADDRESS]],
+        ]);
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([
+            TEST_ADDRESS,
+            SECOND_ADDRESS,
+            THIRD_ADDRESS,
+        ]);
+        expect(provider.__internal.account.address).toBe(TEST_ADDRESS);
+    });
+
+    it("should throw when adding an already authorized account", () => {
+        const provider = createE2EProvider(baseConfig);
+
+        expect(() => addAccount(provider, TEST_ADDRESS)).toThrow(
+            `Account ${TEST_ADDRESS} is already authorized.`,
+        );
+    });
+
+    it("should make the next account active when removing the active one", () => {
+        const provider = createE2EProvider(baseConfig);
+        addAccount(provider, 1);
+        const handler = vi.fn();
+        provider.on("accountsChanged", handler);
+
+        removeAccount(provider, TEST_ADDRESS);
+
+        expect(handler).toHaveBeenCalledWith([SECOND_ADDRESS]);
+        expect(provider.__internal.account.address).toBe(SECOND_ADDRESS);
+    });
+
+    it("should not remove the last or an unknown account", () => {
+        const provider = createE2EProvider(baseConfig);
+
+        expect(() => removeAccount(provider, SECOND_ADDRESS)).toThrow(
+            `Account ${SECOND_ADDRESS} is not authorized.`,
+        );
+        expect(() => removeAccount(provider, TEST_ADDRESS)).toThrow(
+            "Cannot remove the last authorized account.",
+        );
+    });
+
+    it("should reorder accounts and switch the active signer", async () => {
+        const provider = createE2EProvider(baseConfig);
+        addAccount(provider, 1);
+        const handler = vi.fn();
+        provider.on("accountsChanged", handler);
+
+        reorderAccounts(provider, [SECOND_ADDRESS, TEST_ADDRESS]);
+
+        expect(handler).toHaveBeenCalledWith([SECOND_ADDRESS, TEST_ADDRESS]);
+        expect(provider.__internal.account.address).toBe(SECOND_ADDRESS);
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([
+            SECOND_ADDRESS,
+            TEST_ADDRESS,
+        ]);
+    });
+
+    it("should reject a reorder that is not a permutation", () => {
+        const provider = createE2EProvider(baseConfig);
+        addAccount(provider, 1);
+
+        expect(() => reorderAccounts(provider, [SECOND_ADDRESS])).toThrow(
+            "reorderAccounts expects every authorized account exactly once",
+        );
+        expect(() => reorderAccounts(provider, [SECOND_ADDRESS, SECOND_ADDRESS])).toThrow(
+            "reorderAccounts expects every authorized account exactly once",
+        );
+        expect(() => reorderAccounts(provider, [SECOND_ADDRESS, THIRD_ADDRESS])).toThrow(
+            `Account ${THIRD_ADDRESS} is not authorized.`,
+        );
+    });
+
+    it("should sign with the account named in the request", async () => {
+        const provider = createE2EProvider(baseConfig);
+        addAccount(provider, 1);
+
+        const signature = await provider.request<Hex>({
+            method: "personal_sign",
+            params: ["0x48656c6c6f", SECOND_ADDRESS.toLowerCase()],
+        });
+
+        await expect(
+            recoverMessageAddress({ message: { raw: "0x48656c6c6f" }, signature }),
+        ).resolves.toBe(SECOND_ADDRESS);
+    });
+
+    it("should send transactions from the account in `from`", async () => {
+        const mockFetch = mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider(baseConfig);
+        addAccount(provider, 1);
+
+        await provider.request({
+            method: "eth_sendTransaction",
+            params: [{ from: SECOND_ADDRESS, to: TEST_ADDRESS, value: "0x1" }],
+        });
+
+        const raw = mockFetch.mock.calls
+            .map(([, init]) => JSON.parse(init?.body as string) as JsonRpcRequest)
+            .find((body) => body.method === "eth_sendRawTransaction")!.params![0] as Hex;
+        await expect(
+            recoverTransactionAddress({ serializedTransaction: raw as TransactionSerialized }),
+        ).resolves.toBe(SECOND_ADDRESS);
+    });
+
+    it("should reject signing for an unauthorized address with 4100 in strict mode", async () => {
+        const provider = createE2EProvider({ ...baseConfig, addressValidation: "strict" });
+
+        await expect(
+            provider.request({ method: "eth_sign", params: [SECOND_ADDRESS, "0x48656c6c6f"] }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.Unauthorized,
+            message: `Account ${SECOND_ADDRESS} is not authorized.`,
+        });
+    });
+
+    it("should replace all accounts on setSigningAccount", () => {
+        const provider = createE2EProvider(baseConfig);
+        addAccount(provider, 1);
+
+        setSigningAccount(provider, 2);
+
+        expect(provider.__internal.state.accounts).toEqual([THIRD_ADDRESS]);
+    });
+});
+
+describe("address validation", () => {
+    const OTHER_ADDRESS = ANVIL_ACCOUNTS[1]!.address;
+    const typedData = {
+        domain: { name: "Test", version: "1", chainId: 1 },
+        types: { Person: [{ name: "name", type: "string" }] },
+        primaryType: "Person",
+        message: { name: "Alice" },
+    };
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should default to lenient and sign with the active account", async () => {
+        const provider = createE2EProvider(baseConfig);
+        expect(provider.__internal.addressValidation).toBe("lenient");
+
+        const signature = await provider.request<Hex>({
+            method: "personal_sign",
+            params: ["0x48656c6c6f", OTHER_ADDRESS],
+        });
+
+        await expect(
+            recoverMessageAddress({ message: { raw: "0x48656c6c6f" }, signature }),
+        ).resolves.toBe(TEST_ADDRESS);
+    });
+
+    it.each([
+        ["personal_sign", ["0x48656c6c6f", OTHER_ADDRESS]],
+        ["eth_sign", [OTHER_ADDRESS, "0x48656c6c6f"]],
+        ["eth_signTypedData_v4", [OTHER_ADDRESS, JSON.stringify(typedData)]],
+        ["eth_sendTransaction", [{ from: OTHER_ADDRESS, to: TEST_ADDRESS, value: "0x1" }]],
+    ])("should reject %s for an unauthorized address in strict mode", async (method, params) => {
+        const mockFetch = mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider(baseConfig);
+        setAddressValidation(provider, "strict");
+
+        const error = await provider.request({ method, params }).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ProviderRpcError);
+        expect(error).toMatchObject({
+            code: ProviderErrorCode.Unauthorized,
+            message: `Account ${OTHER_ADDRESS} is not authorized.`,
+        });
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should accept the connected address in any casing in strict mode", async () => {
+        const provider = createE2EProvider({ ...baseConfig, addressValidation: "strict" });
+
+        const signature = await provider.request<Hex>({
+            method: "eth_signTypedData_v4",
+            params: [TEST_ADDRESS.toLowerCase(), JSON.stringify(typedData)],
+        });
+
+        expect(signature).toMatch(/^0x[a-f0-9]+$/i);
+    });
+
+    it("should reject before the request reaches the approval queue", async () => {
+        const provider = createE2EProvider({
+            ...baseConfig,
+            addressValidation: "strict",
+            approvalMode: "manual",
+        });
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", OTHER_ADDRESS] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.Unauthorized });
+        expect(getPendingRequests(provider)).toEqual([]);
+    });
+
+    it("should throw for provider without setAddressValidation", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setAddressValidation(fakeProvider, "strict")).toThrow(
+            "Provider does not support setAddressValidation",
+        );
+    });
+});
+
+describe("setRejectSignature", () => {
+    it("should reject personal_sign with 4001 error when enabled", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        setRejectSignature(provider, true);
+
+        await expect(
+            provider.request({
+                method: "personal_sign",
+                params: ["0x48656c6c6f", TEST_ADDRESS],
+            }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the signature request.",
+        });
+    });
+
+    it("should reject eth_sign with 4001 error when enabled", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        setRejectSignature(provider, true);
+
+        await expect(
+            provider.request({
+                method: "eth_sign",
+                params: [TEST_ADDRESS, "0x48656c6c6f"],
+            }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the signature request.",
+        });
+    });
+
+    it("should reject eth_signTypedData_v4 with 4001 error when enabled", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        setRejectSignature(provider, true);
+
+        const typedData = {
+            domain: { name: "Test", version: "1", chainId: 1 },
+            types: { Person: [{ name: "name", type: "string" }] },
+            primaryType: "Person",
+            message: { name: "Alice" },
+        };
+
+        await expect(
+            provider.request({
+                method: "eth_signTypedData_v4",
+                params: [TEST_ADDRESS, JSON.stringify(typedData)],
+            }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the signature request.",
+        });
+    });
+
+    it("should allow signing when disabled", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        setRejectSignature(provider, true);
+        setRejectSignature(provider, false);
+
+        // Should work - personal_sign returns a signature
+        const signature = await provider.request<Hex>({
+            method: "personal_sign",
+            params: ["0x48656c6c6f", TEST_ADDRESS],
+        });
+        expect(signature).toMatch(/^0x[a-f0-9]+$/i);
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setRejectSignature(fakeProvider, true)).toThrow(
+            "Provider does not support setRejectSignature",
+        );
+    });
+
+    it("should update internal state", () => {
+        const provider = createE2EProvider(baseConfig);
+
+        expect(provider.__internal.rejectSignature).toBe(false);
+
+        setRejectSignature(provider, true);
+        expect(provider.__internal.rejectSignature).toBe(true);
+
+        setRejectSignature(provider, false);
+        expect(provider.__internal.rejectSignature).toBe(false);
+    });
+});
+
+describe("setRejectTransaction", () => {
+    it("should reject eth_sendTransaction with 4001 error when enabled", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        setRejectTransaction(provider, true);
+
+        await expect(
+            provider.request({
+                method: "eth_sendTransaction",
+                params: [{ from: TEST_ADDRESS, to: TEST_ADDRESS, value: "0x1" }],
+            }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the transaction request.",
+        });
+    });
+
+    it("should allow transactions when disabled (verifies rejection is lifted)", () => {
+        const provider = createE2EProvider(baseConfig);
+
+        // Enable then disable rejection
+        setRejectTransaction(provider, true);
+        setRejectTransaction(provider, false);
+
+        // Verify the internal state is correctly toggled
+        expect(provider.__internal.rejectTransaction).toBe(false);
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setRejectTransaction(fakeProvider, true)).toThrow(
+            "Provider does not support setRejectTransaction",
+        );
+    });
+
+    it("should update internal state", () => {
+        const provider = createE2EProvider(baseConfig);
+
+        expect(provider.__internal.rejectTransaction).toBe(false);
+
+        setRejectTransaction(provider, true);
+        expect(provider.__internal.rejectTransaction).toBe(true);
+
+        setRejectTransaction(provider, false);
+        expect(provider.__internal.rejectTransaction).toBe(false);
+    });
+
+    it("should not affect signature methods", async () => {
+        const provider = createE2EProvider(baseConfig);
+
+        setRejectTransaction(provider, true);
+
+        // Signing should still work
+        const signature = await provider.request<Hex>({
+            method: "personal_sign",
+            params: ["0x48656c6c6f", TEST_ADDRESS],
+        });
+        expect(signature).toMatch(/^0x[a-f0-9]+$/i);
+    });
+});
+
+describe("manual approval mode", () => {
+    const typedData = {
+        domain: { name: "Test", version: "1", chainId: 1 },
+        types: { Person: [{ name: "name", type: "string" }] },
+        primaryType: "Person",
+        message: { name: "Alice" },
+    };
+
+    it("should default to auto approval", () => {
+        const provider = createE2EProvider(baseConfig);
+
+        expect(provider.__internal.approvalMode).toBe("auto");
+        expect(getPendingRequests(provider)).toEqual([]);
+    });
+
+    it("should accept approvalMode in config", () => {
+        const provider = createE2EProvider({ ...baseConfig, approvalMode: "manual" });
+
+        expect(provider.__internal.approvalMode).toBe("manual");
+    });
+
+    it("should queue personal_sign with decoded message until approved", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setApprovalMode(provider, "manual");
+
+        const signaturePromise = provider.request<Hex>({
+            method: "personal_sign",
+            params: ["0x48656c6c6f", TEST_ADDRESS],
+        });
+
+        const pending = getPendingRequests(provider);
+        expect(pending).toHaveLength(1);
+        expect(pending[0]).toMatchObject({
+            type: "signature",
+            method: "personal_sign",
+            params: ["0x48656c6c6f", TEST_ADDRESS],
+            decoded: { address: TEST_ADDRESS, message: "Hello" },
+        });
+
+        approveRequest(provider, pending[0]!.id);
+
+        await expect(signaturePromise).resolves.toMatch(/^0x[a-f0-9]+$/i);
+        expect(getPendingRequests(provider)).toEqual([]);
+    });
+
+    it("should decode typed data for eth_signTypedData_v4", async () => {
+        const provider = createE2EProvider(baseConfig);
+        provider.setApprovalMode("manual");
+
+        const signaturePromise = provider.request<Hex>({
+            method: "eth_signTypedData_v4",
+            params: [TEST_ADDRESS, JSON.stringify(typedData)],
+        });
+
+        const [pending] = provider.getPendingRequests();
+        expect(pending?.decoded).toEqual({ address: TEST_ADDRESS, typedData });
+
+        provider.approveRequest(pending!.id);
+        await expect(signaturePromise).resolves.toMatch(/^0x[a-f0-9]+$/i);
+    });
+
+    it("should reject a pending transaction with 4001 by default", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setApprovalMode(provider, "manual");
+
+        const txParams = { from: TEST_ADDRESS, to: TEST_ADDRESS, value: "0x1" };
+        const txPromise = provider.request({ method: "eth_sendTransaction", params: [txParams] });
+
+        const [pending] = getPendingRequests(provider);
+        expect(pending).toMatchObject({
+            type: "transaction",
+            method: "eth_sendTransaction",
+            decoded: { address: TEST_ADDRESS, transaction: txParams },
+        });
+
+        rejectRequest(provider, pending!.id);
+
+        await expect(txPromise).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the transaction request.",
+        });
+    });
+
+    it("should reject with a custom error code", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setApprovalMode(provider, "manual");
+
+        const signaturePromise = provider.request({
+            method: "eth_sign",
+            params: [TEST_ADDRESS, "0x48656c6c6f"],
+        });
+
+        const [pending] = getPendingRequests(provider);
+        rejectRequest(provider, pending!.id, ProviderErrorCode.Unauthorized);
+
+        await expect(signaturePromise).rejects.toMatchObject({
+            code: ProviderErrorCode.Unauthorized,
+            message: "User rejected the signature request.",
+        });
+    });
+
+    it("should resolve requests independently and in any order", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setApprovalMode(provider, "manual");
+
+        const first = provider.request({
+            method: "personal_sign",
+            params: ["0x01", TEST_ADDRESS],
+        });
+        const second = provider.request({
+            method: "personal_sign",
+            params: ["0x02", TEST_ADDRESS],
+        });
+
+        const [firstPending, secondPending] = getPendingRequests(provider);
+        expect(secondPending!.id).toBeGreaterThan(firstPending!.id);
+
+        rejectRequest(provider, secondPending!.id);
+        await expect(second).rejects.toBeInstanceOf(ProviderRpcError);
+        expect(getPendingRequests(provider)).toHaveLength(1);
+
+        approveRequest(provider, firstPending!.id);
+        await expect(first).resolves.toMatch(/^0x[a-f0-9]+$/i);
+    });
+
+    it("should still apply reject switches before queueing", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setApprovalMode(provider, "manual");
+        setRejectSignature(provider, true);
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.UserRejectedRequest });
+        expect(getPendingRequests(provider)).toEqual([]);
+    });
+
+    it("should reject transactions approved after the chain was switched", async () => {
+        const mockFetch = vi.spyOn(global, "fetch");
+        const provider = createE2EProvider({
+            ...baseConfig,
+            chains: [mainnet, optimism],
+            approvalMode: "manual",
+        });
+
+        const txPromise = provider.request({
+            method: "eth_sendTransaction",
+            params: [{ chainId: "0x1", to: TEST_ADDRESS, value: "0x1" }],
+        });
+        setChain(provider, optimism.id);
+        approveRequest(provider, getPendingRequests(provider)[0]!.id);
+
+        await expect(txPromise).rejects.toMatchObject({
+            code: ProviderErrorCode.ChainDisconnected,
+            message: "The active chain changed from 1 to 10 while the request was pending.",
+        });
+        expect(mockFetch).not.toHaveBeenCalled();
+        mockFetch.mockRestore();
+    });
+
+    it("should reject prompts approved after their signer was replaced", async () => {
+        const provider = createE2EProvider({ ...baseConfig, approvalMode: "manual" });
+
+        const signaturePromise = provider.request({
+            method: "personal_sign",
+            params: ["0x01", TEST_ADDRESS],
+        });
+        setSigningAccount(provider, 1);
+        approveRequest(provider, getPendingRequests(provider)[0]!.id);
+
+        await expect(signaturePromise).rejects.toMatchObject({
+            code: ProviderErrorCode.Unauthorized,
+        });
+    });
+
+    it("should throw for unknown pending request ids", () => {
+        const provider = createE2EProvider(baseConfig);
+
+        expect(() => approveRequest(provider, 42)).toThrow("No pending request with id 42");
+        expect(() => rejectRequest(provider, 42)).toThrow("No pending request with id 42");
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setApprovalMode(fakeProvider, "manual")).toThrow(
+            "Provider does not support setApprovalMode",
+        );
+        expect(() => getPendingRequests(fakeProvider)).toThrow(
+            "Provider does not support getPendingRequests",
+        );
+        expect(() => approveRequest(fakeProvider, 1)).toThrow(
+            "Provider does not support approveRequest",
+        );
+        expect(() => rejectRequest(fakeProvider, 1)).toThrow(
+            "Provider does not support rejectRequest",
+        );
+    });
+});
+
+describe("approval delay", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should confirm signatures once the delay has passed", async () => {
+        const provider = createE2EProvider({ ...baseConfig, approvalDelay: { signature: 1000 } });
+        const settled = vi.fn();
+
+        const signaturePromise = provider
+            .request<Hex>({ method: "personal_sign", params: ["0x48656c6c6f", TEST_ADDRESS] })
+            .then(settled);
+
+        expect(getPendingRequests(provider)).toMatchObject([
+            { type: "signature", method: "personal_sign", decoded: { message: "Hello" } },
+        ]);
+        await vi.advanceTimersByTimeAsync(999);
+        expect(settled).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        await signaturePromise;
+
+        expect(settled).toHaveBeenCalledWith(expect.stringMatching(/^0x[a-f0-9]+$/i));
+        expect(getPendingRequests(provider)).toEqual([]);
+    });
+
+    it("should pick the delay of each request with a function", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setApprovalDelay(provider, {
+            signature: (request) => (request.decoded.message === "slow" ? 5000 : 0),
+        });
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+        ).resolves.toMatch(/^0x[a-f0-9]+$/i);
+
+        void provider.request({ method: "personal_sign", params: ["0x736c6f77", TEST_ADDRESS] });
+        expect(getPendingRequests(provider)).toHaveLength(1);
+    });
+
+    it("should only delay the configured prompt type", async () => {
+        const provider = createE2EProvider(baseConfig);
+        setApprovalDelay(provider, { transaction: 5000 });
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+        ).resolves.toMatch(/^0x[a-f0-9]+$/i);
+
+        void provider.request({
+            method: "eth_signTransaction",
+            params: [{ from: TEST_ADDRESS, to: TEST_ADDRESS, gas: "0x5208", nonce: "0x0" }],
+        });
+        expect(getPendingRequests(provider)).toMatchObject([{ type: "transaction" }]);
+    });
+
+    it("should release delayed requests early", async () => {
+        const provider = createE2EProvider({
+            ...baseConfig,
+            approvalDelay: { signature: 60_000 },
+        });
+
+        const approved = provider.request({
+            method: "personal_sign",
+            params: ["0x01", TEST_ADDRESS],
+        });
+        const rejected = provider.request({
+            method: "personal_sign",
+            params: ["0x02", TEST_ADDRESS],
+        });
+        const [first, second] = getPendingRequests(provider);
+
+        approveRequest(provider, first!.id);
+        rejectRequest(provider, second!.id);
+
+        await expect(approved).resolves.toMatch(/^0x[a-f0-9]+$/i);
+        await expect(rejected).rejects.toMatchObject({
+            code: ProviderErrorCode.UserRejectedRequest,
+        });
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should reject delayed requests with 4900 on disconnect", async () => {
+        const provider = createE2EProvider({
+            ...baseConfig,
+            approvalDelay: { signature: 60_000 },
+        });
+
+        const signaturePromise = provider.request({
+            method: "personal_sign",
+            params: ["0x01", TEST_ADDRESS],
+        });
+        disconnect(provider);
+
+        await expect(signaturePromise).rejects.toMatchObject({
+            code: ProviderErrorCode.Disconnected,
+        });
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should disable a delay set to 0", async () => {
+        const provider = createE2EProvider({ ...baseConfig, approvalDelay: { signature: 1000 } });
+        setApprovalDelay(provider, { signature: 0 });
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+        ).resolves.toMatch(/^0x[a-f0-9]+$/i);
+    });
+
+    it("should leave manual approval to the test", async () => {
+        const provider = createE2EProvider({
+            ...baseConfig,
+            approvalMode: "manual",
+            approvalDelay: { signature: 1000 },
+        });
+
+        void provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] });
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(getPendingRequests(provider)).toHaveLength(1);
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setApprovalDelay(fakeProvider, { signature: 1000 })).toThrow(
+            "Provider does not support setApprovalDelay",
+        );
+    });
+});
+
+describe("EIP-5792", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const call = { to: ANVIL_ACCOUNTS[1]!.address, value: "0x1" as Hex };
+    const batchParams = {
+        version: "2.0.0",
+        chainId: "0x1" as Hex,
+        from: TEST_ADDRESS,
+        atomicRequired: false,
+        calls: [call, { ...call, data: "0xdeadbeef" as Hex }],
+    };
+
+    function receiptFor(hash: Hex, status: Hex = "0x1"): Record<string, unknown> {
+        return {
+            transactionHash: hash,
+            status,
+            blockHash: `0x${"ab".repeat(32)}`,
+            blockNumber: "0x2",
+            gasUsed: "0x5208",
+            logs: [{ address: call.to, data: "0x", topics: [], logIndex: "0x0", removed: false }],
+            cumulativeGasUsed: "0x5208",
+        };
+    }
+
+    describe("wallet_getCapabilities", () => {
+        it("should report atomic as unsupported for every supported chain by default", async () => {
+            const provider = createE2EProvider({ ...baseConfig, chains: [mainnet, arbitrum] });
+
+            const capabilities = await provider.request({
+                method: "wallet_getCapabilities",
+                params: [TEST_ADDRESS],
+            });
+
+            expect(capabilities).toEqual({
+                "0x1": { atomic: { status: "unsupported" } },
+                "0xa4b1": { atomic: { status: "unsupported" } },
+            });
+        });
+
+        it("should merge configured capabilities and filter by requested chain IDs", async () => {
+            const provider = createE2EProvider({
+                ...baseConfig,
+                chains: [mainnet, arbitrum],
+                capabilities: { 42161: { paymasterService: { supported: true } } },
+            });
+
+            const capabilities = await provider.request({
+                method: "wallet_getCapabilities",
+                params: [TEST_ADDRESS, ["0xa4b1", "0x89"]],
+            });
+
+            expect(capabilities).toEqual({
+                "0xa4b1": {
+                    atomic: { status: "unsupported" },
+                    paymasterService: { supported: true },
+                },
+            });
+        });
+
+        it("should reflect capabilities set at runtime", async () => {
+            const provider = createE2EProvider(baseConfig);
+
+            setCapabilities(provider, 1, { atomic: { status: "supported" } });
+
+            const capabilities = await provider.request({
+                method: "wallet_getCapabilities",
+                params: [TEST_ADDRESS, ["0x1"]],
+            });
+
+            expect(capabilities).toEqual({ "0x1": { atomic: { status: "supported" } } });
+            expect(provider.__internal.capabilities[1]).toEqual({
+                atomic: { status: "supported" },
+            });
+        });
+    });
+
+    describe("wallet_sendCalls", () => {
+        it("should send each call as a sequential transaction and return a batch id", async () => {
+            const mockFetch = mockRpc(TRANSACTION_HANDLERS);
+            const provider = createE2EProvider(baseConfig);
+
+            const result = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+
+            expect(result.id).toMatch(/^0x[0-9a-f]{64}$/);
+            const sentRaw = mockFetch.mock.calls.filter(
+                ([, init]) =>
+                    (JSON.parse((init as RequestInit).body as string) as JsonRpcRequest).method ===
+                    "eth_sendRawTransaction",
+            );
+            expect(sentRaw).toHaveLength(2);
+        });
+
+        it("should use the id from the request when provided", async () => {
+            mockRpc(TRANSACTION_HANDLERS);
+            const provider = createE2EProvider(baseConfig);
+
+            const result = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [{ ...batchParams, id: "my-batch" }],
+            });
+
+            expect(result).toEqual({ id: "my-batch" });
+        });
+
+        it("should reject a duplicate batch id with 5720", async () => {
+            mockRpc(TRANSACTION_HANDLERS);
+            const provider = createE2EProvider(baseConfig);
+            const params = [{ ...batchParams, id: "my-batch" }];
+
+            await provider.request({ method: "wallet_sendCalls", params });
+
+            await expect(
+                provider.request({ method: "wallet_sendCalls", params }),
+            ).rejects.toMatchObject({ code: ProviderErrorCode.DuplicateId });
+        });
+
+        it("should reject a batch for a chain other than the active one with 5710", async () => {
+            const provider = createE2EProvider(baseConfig);
+
+            await expect(
+                provider.request({
+                    method: "wallet_sendCalls",
+                    params: [{ ...batchParams, chainId: "0xa4b1" }],
+                }),
+            ).rejects.toMatchObject({ code: ProviderErrorCode.UnsupportedChainId });
+        });
+
+        it("should reject atomicRequired with 5760 when atomic is unsupported", async () => {
+            const provider = createE2EProvider(baseConfig);
+
+            await expect(
+                provider.request({
+                    method: "wallet_sendCalls",
+                    params: [{ ...batchParams, atomicRequired: true }],
+                }),
+            ).rejects.toMatchObject({ code: ProviderErrorCode.AtomicityNotSupported });
+        });
+
+        it("should reject unsupported non-optional capabilities with 5700", async () => {
+            const provider = createE2EProvider(baseConfig);
+
+            await expect(
+                provider.request({
+                    method: "wallet_sendCalls",
+                    params: [{ ...batchParams, capabilities: { paymasterService: {} } }],
+                }),
+            ).rejects.toMatchObject({
+                code: ProviderErrorCode.UnsupportedNonOptionalCapability,
+            });
+        });
+
+        it("should ignore unsupported optional capabilities", async () => {
+            mockRpc(TRANSACTION_HANDLERS);
+            const provider = createE2EProvider(baseConfig);
+
+            await expect(
+                provider.request({
+                    method: "wallet_sendCalls",
+                    params: [
+                        { ...batchParams, capabilities: { paymasterService: { optional: true } } },
+                    ],
+                }),
+            ).resolves.toHaveProperty("id");
+        });
+
+        it("should respect the reject transaction switch", async () => {
+            const provider = createE2EProvider(baseConfig);
+
+            setRejectTransaction(provider, true);
+
+            await expect(
+                provider.request({ method: "wallet_sendCalls", params: [batchParams] }),
+            ).rejects.toMatchObject({
+                code: ProviderErrorCode.UserRejectedRequest,
+                message: "User rejected the transaction request.",
+            });
+        });
+
+        it("should queue the batch in manual approval mode", async () => {
+            const provider = createE2EProvider({ ...baseConfig, approvalMode: "manual" });
+
+            const batchPromise = provider.request({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+
+            const [pending] = getPendingRequests(provider);
+            expect(pending).toMatchObject({
+                type: "transaction",
+                method: "wallet_sendCalls",
+                decoded: { address: TEST_ADDRESS, calls: batchParams.calls },
+            });
+
+            rejectRequest(provider, pending!.id);
+            await expect(batchPromise).rejects.toMatchObject({
+                code: ProviderErrorCode.UserRejectedRequest,
+            });
+        });
+    });
+
+    describe("wallet_getCallsStatus", () => {
+        it("should report confirmed status with receipts", async () => {
+            mockRpc({
+                ...TRANSACTION_HANDLERS,
+                eth_getTransactionReceipt: ([hash]) => receiptFor(hash as Hex),
+            });
+            const provider = createE2EProvider(baseConfig);
+
+            const { id } = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+            const status = await provider.request<Record<string, unknown>>({
+                method: "wallet_getCallsStatus",
+                params: [id],
+            });
+
+            expect(status).toMatchObject({
+                version: "2.0.0",
+                id,
+                chainId: "0x1",
+                status: 200,
+                atomic: false,
+            });
+            expect(status.receipts).toHaveLength(2);
+            const [receipt] = status.receipts as { transactionHash: Hex }[];
+            expect(receipt).toEqual({
+                transactionHash: receipt!.transactionHash,
+                status: "0x1",
+                blockHash: `0x${"ab".repeat(32)}`,
+                blockNumber: "0x2",
+                gasUsed: "0x5208",
+                logs: [{ address: call.to, data: "0x", topics: [] }],
+            });
+        });
+
+        it("should report pending status while receipts are missing", async () => {
+            mockRpc({ ...TRANSACTION_HANDLERS, eth_getTransactionReceipt: () => null });
+            const provider = createE2EProvider(baseConfig);
+
+            const { id } = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+
+            await expect(
+                provider.request({ method: "wallet_getCallsStatus", params: [id] }),
+            ).resolves.toMatchObject({ status: 100, receipts: [] });
+        });
+
+        it("should report partial failure when some calls reverted", async () => {
+            let receipts = 0;
+            mockRpc({
+                ...TRANSACTION_HANDLERS,
+                eth_getTransactionReceipt: ([hash]) =>
+                    receiptFor(hash as Hex, receipts++ === 0 ? "0x1" : "0x0"),
+            });
+            const provider = createE2EProvider(baseConfig);
+
+            const { id } = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+
+            await expect(
+                provider.request({ method: "wallet_getCallsStatus", params: [id] }),
+            ).resolves.toMatchObject({ status: 600 });
+        });
+
+        it("should report failure when a later call could not be sent", async () => {
+            mockRpc({
+                ...TRANSACTION_HANDLERS,
+                eth_estimateGas: ([tx]) => {
+                    if ((tx as { data?: Hex }).data) {
+                        throw new ProviderRpcError(3, "execution reverted");
+                    }
+                    return "0x5208";
+                },
+                eth_getTransactionReceipt: ([hash]) => receiptFor(hash as Hex),
+            });
+            const provider = createE2EProvider(baseConfig);
+
+            const { id } = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+            const status = await provider.request<Record<string, unknown>>({
+                method: "wallet_getCallsStatus",
+                params: [id],
+            });
+
+            expect(status.status).toBe(600);
+            expect(status.receipts).toHaveLength(1);
+        });
+
+        it("should reject the request when the first call could not be sent", async () => {
+            mockRpc({
+                ...TRANSACTION_HANDLERS,
+                eth_estimateGas: () => {
+                    throw new ProviderRpcError(3, "execution reverted");
+                },
+            });
+            const provider = createE2EProvider(baseConfig);
+
+            await expect(
+                provider.request({ method: "wallet_sendCalls", params: [batchParams] }),
+            ).rejects.toBeInstanceOf(ProviderRpcError);
+        });
+
+        it("should read receipts from the batch's chain after switching chains", async () => {
+            const mockFetch = mockRpc({
+                ...TRANSACTION_HANDLERS,
+                eth_getTransactionReceipt: ([hash]) => receiptFor(hash as Hex),
+            });
+            const provider = createE2EProvider({
+                ...baseConfig,
+                chains: [mainnet, arbitrum],
+                rpcUrls: { 1: "http://localhost:8545", 42161: "http://localhost:8546" },
+            });
+
+            const { id } = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+            setChain(provider, arbitrum.id);
+            mockFetch.mockClear();
+
+            await expect(
+                provider.request({ method: "wallet_getCallsStatus", params: [id] }),
+            ).resolves.toMatchObject({ chainId: "0x1", status: 200 });
+            expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+                "http://localhost:8545",
+                "http://localhost:8545",
+            ]);
+        });
+
+        it("should reject unknown batch ids with 5730", async () => {
+            const provider = createE2EProvider(baseConfig);
+
+            await expect(
+                provider.request({ method: "wallet_getCallsStatus", params: ["0x1234"] }),
+            ).rejects.toMatchObject({ code: ProviderErrorCode.UnknownBundleId });
+        });
+    });
+
+    describe("wallet_showCallsStatus", () => {
+        it("should return null for a known batch", async () => {
+            mockRpc(TRANSACTION_HANDLERS);
+            const provider = createE2EProvider(baseConfig);
+
+            const { id } = await provider.request<{ id: string }>({
+                method: "wallet_sendCalls",
+                params: [batchParams],
+            });
+
+            await expect(
+                provider.request({ method: "wallet_showCallsStatus", params: [id] }),
+            ).resolves.toBeNull();
+        });
+
+        it("should reject unknown batch ids with 5730", async () => {
+            const provider = createE2EProvider(baseConfig);
+
+            await expect(
+                provider.request({ method: "wallet_showCallsStatus", params: ["0x1234"] }),
+            ).rejects.toMatchObject({ code: ProviderErrorCode.UnknownBundleId });
+        });
+    });
+
+    it("should throw setCapabilities for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
             on: vi.fn(),
             removeListener: vi.fn(),
             request: vi.fn(),
         };
 
-        expect(() => setRejectTransaction(fakeProvider, true)).toThrow(
-            "Provider does not support setRejectTransaction",
+        expect(() => setCapabilities(fakeProvider, 1, {})).toThrow(
+            "Provider does not support setCapabilities",
         );
     });
+});
 
-    it("should update internal state", () => {
+describe("request recording", () => {
+    const recordingConfig: E2EProviderConfig = { ...baseConfig, record: true };
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should record every request with its route, chain and account", async () => {
+        mockRpc({
+            ...TRANSACTION_HANDLERS,
+            eth_blockNumber: () => "0x10",
+            anvil_nodeInfo: () => ({}),
+        });
+        const provider = createE2EProvider(recordingConfig);
+
+        await provider.request({ method: "eth_chainId" });
+        await provider.request({ method: "eth_blockNumber" });
+        await provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] });
+        await provider.request({ method: "anvil_nodeInfo" });
+
+        const recording = getRecording(provider);
+        expect(recording.map((r) => [r.method, r.route])).toEqual([
+            ["eth_chainId", "wallet"],
+            ["eth_blockNumber", "read"],
+            ["personal_sign", "write"],
+            ["anvil_nodeInfo", "unknown"],
+        ]);
+        expect(recording[1]).toMatchObject({
+            id: 2,
+            params: undefined,
+            rpcUrl: "http://localhost:8545",
+            chainId: 1,
+            account: TEST_ADDRESS,
+            result: "0x10",
+        });
+        expect(recording[1]!.duration).toBeGreaterThanOrEqual(0);
+        expect(recording[1]!.startedAt).toBeLessThanOrEqual(Date.now());
+    });
+
+    it("should record errors and still throw them", async () => {
+        const provider = createE2EProvider(recordingConfig);
+        setRejectSignature(provider, true);
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", TEST_ADDRESS] }),
+        ).rejects.toThrow(ProviderRpcError);
+
+        const [recorded] = getRecording(provider);
+        expect(recorded!.error).toEqual({
+            code: ProviderErrorCode.UserRejectedRequest,
+            message: "User rejected the signature request.",
+        });
+        expect(recorded).not.toHaveProperty("result");
+    });
+
+    it("should record the chain active when the request was made", async () => {
+        const provider = createE2EProvider({
+            ...recordingConfig,
+            chains: [mainnet, arbitrum],
+            rpcUrls: { 1: "http://localhost:8545", 42161: "http://localhost:8546" },
+        });
+
+        await provider.request({ method: "eth_chainId" });
+        setChain(provider, arbitrum.id);
+        await provider.request({ method: "eth_chainId" });
+
+        expect(getRecording(provider).map((r) => [r.chainId, r.rpcUrl])).toEqual([
+            [1, "http://localhost:8545"],
+            [42161, "http://localhost:8546"],
+        ]);
+    });
+
+    it("should clear the recording", async () => {
+        const provider = createE2EProvider(recordingConfig);
+        await provider.request({ method: "eth_chainId" });
+
+        clearRecording(provider);
+
+        expect(getRecording(provider)).toEqual([]);
+    });
+
+    it("should not record by default", async () => {
         const provider = createE2EProvider(baseConfig);
 
-        expect(provider.__internal.rejectTransaction).toBe(false);
+        await provider.request({ method: "eth_chainId" });
 
-        setRejectTransaction(provider, true);
-        expect(provider.__internal.rejectTransaction).toBe(true);
+        expect(getRecording(provider)).toEqual([]);
+    });
 
-        setRejectTransaction(provider, false);
-        expect(provider.__internal.rejectTransaction).toBe(false);
+    it("should export a HAR-like JSON log", async () => {
+        const provider = createE2EProvider(recordingConfig);
+        await provider.request({ method: "eth_chainId" });
+
+        const exported = exportRecording(provider);
+
+        expect(JSON.parse(JSON.stringify(exported))).toEqual(exported);
+        expect(exported.log.creator.name).toBe("@wonderland/walletless");
+        const [entry] = exported.log.entries;
+        expect(new Date(entry!.startedDateTime).toISOString()).toBe(entry!.startedDateTime);
+        expect(entry!.time).toBeGreaterThanOrEqual(0);
+        expect(exported.log.entries).toMatchObject([
+            {
+                request: {
+                    id: 1,
+                    method: "eth_chainId",
+                    params: undefined,
+                    route: "wallet",
+                    url: "http://localhost:8545",
+                },
+                response: { result: "0x1" },
+                chainId: 1,
+                account: TEST_ADDRESS,
+            },
+        ]);
     });
+});
 
-    it("should not affect signature methods", async () => {
+describe("request middleware", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    /**
+     * Methods and params of the requests that reached the mocked node
+     */
+    function sentRequests(mockFetch: MockInstance<typeof fetch>): unknown[][] {
+        return mockFetch.mock.calls.map(([, init]) => {
+            const { method, params } = JSON.parse(init?.body as string) as JsonRpcRequest;
+            return [method, params];
+        });
+    }
+
+    it("should answer requests without reaching the node", async () => {
+        const mockFetch = mockRpc({ ...TRANSACTION_HANDLERS, eth_blockNumber: () => "0x10" });
         const provider = createE2EProvider(baseConfig);
+        addMiddleware(provider, (request, next) =>
+            request.method === "eth_call" ? "0x2a" : next(),
+        );
 
-        setRejectTransaction(provider, true);
+        expect(
+            await provider.request({
+                method: "eth_call",
+                params: [{ to: TEST_ADDRESS }, "latest"],
+            }),
+        ).toBe("0x2a");
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+        expect(sentRequests(mockFetch)).toEqual([["eth_blockNumber", undefined]]);
+    });
 
-        // Signing should still work
-        const signature = await provider.request<Hex>({
-            method: "personal_sign",
-            params: ["0x48656c6c6f", TEST_ADDRESS],
+    it("should fail requests with the thrown error", async () => {
+        mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider(baseConfig);
+        addMiddleware(provider, (request, next) => {
+            if (request.method === "eth_estimateGas") {
+                throw new ProviderRpcError(3, "execution reverted", "0x1234");
+            }
+            return next();
         });
-        expect(signature).toMatch(/^0x[a-f0-9]+$/i);
+
+        await expect(
+            provider.request({ method: "eth_estimateGas", params: [{ to: TEST_ADDRESS }] }),
+        ).rejects.toMatchObject({ code: 3, message: "execution reverted", data: "0x1234" });
+    });
+
+    it("should pass rewritten params on", async () => {
+        const mockFetch = mockRpc({ ...TRANSACTION_HANDLERS, eth_getBalance: () => "0x1" });
+        const provider = createE2EProvider(baseConfig);
+        addMiddleware(provider, (request, next) =>
+            next({ ...request, params: [request.params?.[0], "0x5"] }),
+        );
+
+        await provider.request({ method: "eth_getBalance", params: [TEST_ADDRESS, "latest"] });
+
+        expect(sentRequests(mockFetch)).toEqual([["eth_getBalance", [TEST_ADDRESS, "0x5"]]]);
+    });
+
+    it("should transform the result of next", async () => {
+        mockRpc({ ...TRANSACTION_HANDLERS, eth_blockNumber: () => "0x10" });
+        const provider = createE2EProvider(baseConfig);
+        addMiddleware(provider, async (request, next) => {
+            const result = await next();
+            return request.method === "eth_blockNumber"
+                ? numberToHex(BigInt(result as Hex) + 1n)
+                : result;
+        });
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x11");
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x1");
+    });
+
+    it("should run middleware in the order it was added", async () => {
+        const calls: string[] = [];
+        const provider = createE2EProvider({
+            ...baseConfig,
+            middleware: [
+                async (_request, next): Promise<unknown> => {
+                    calls.push("first");
+                    return next();
+                },
+            ],
+        });
+        addMiddleware(provider, () => {
+            calls.push("second");
+            return "0x99";
+        });
+
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x99");
+        expect(calls).toEqual(["first", "second"]);
+    });
+
+    it("should route rewritten methods by their new name", async () => {
+        const provider = createE2EProvider(baseConfig);
+        addMiddleware(provider, (request, next) =>
+            request.method === "eth_coinbase" ? next({ method: "eth_accounts" }) : next(),
+        );
+
+        expect(await provider.request({ method: "eth_coinbase" })).toEqual([TEST_ADDRESS]);
+    });
+
+    it("should record the result seen by the app", async () => {
+        const provider = createE2EProvider({ ...baseConfig, record: true });
+        addMiddleware(provider, () => "0x2a");
+
+        await provider.request({ method: "eth_call", params: [{ to: TEST_ADDRESS }, "latest"] });
+
+        expect(getRecording(provider)).toMatchObject([
+            { method: "eth_call", route: "read", result: "0x2a" },
+        ]);
+    });
+
+    it("should remove and clear middleware", async () => {
+        const provider = createE2EProvider(baseConfig);
+        const id = addMiddleware(provider, () => "0x99");
+        addMiddleware(provider, () => "0x98");
+
+        removeMiddleware(provider, id);
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x98");
+
+        clearMiddleware(provider);
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x1");
+        expect(() => removeMiddleware(provider, id)).toThrow(`No middleware with id ${id}.`);
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => addMiddleware(fakeProvider, vi.fn())).toThrow(
+            "Provider does not support addMiddleware",
+        );
+        expect(() => removeMiddleware(fakeProvider, 1)).toThrow(
+            "Provider does not support removeMiddleware",
+        );
+        expect(() => clearMiddleware(fakeProvider)).toThrow(
+            "Provider does not support clearMiddleware",
+        );
+    });
+});
+
+describe("Anvil cheatcodes", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    /**
+     * Collect the [url, method, params] of every JSON-RPC call made through fetch
+     */
+    function rpcCalls(mockFetch: MockInstance<typeof fetch>): [string, string, unknown[]][] {
+        return mockFetch.mock.calls.map(([url, init]) => {
+            const { method, params = [] } = JSON.parse(init?.body as string) as JsonRpcRequest;
+            return [url as string, method, params];
+        });
+    }
+
+    const cheatcodeResults: Record<string, () => unknown> = {
+        evm_snapshot: () => "0x1",
+        evm_revert: () => true,
+        anvil_mine: () => null,
+        anvil_setBalance: () => null,
+        anvil_setCode: () => null,
+        anvil_setStorageAt: () => null,
+        evm_setNextBlockTimestamp: () => null,
+        evm_increaseTime: () => 60,
+        anvil_impersonateAccount: () => null,
+        anvil_stopImpersonatingAccount: () => null,
+    };
+
+    it("should take and revert snapshots", async () => {
+        const mockFetch = mockRpc({
+            ...TRANSACTION_HANDLERS,
+            ...TRANSACTION_HANDLERS,
+            ...cheatcodeResults,
+        });
+        const provider = createE2EProvider(baseConfig);
+
+        const id = await snapshot(provider);
+        const reverted = await revert(provider, id);
+
+        expect(id).toBe("0x1");
+        expect(reverted).toBe(true);
+        expect(rpcCalls(mockFetch)).toEqual([
+            ["http://localhost:8545", "evm_snapshot", []],
+            ["http://localhost:8545", "evm_revert", ["0x1"]],
+        ]);
+    });
+
+    it("should encode cheatcode params as hex quantities", async () => {
+        const mockFetch = mockRpc({
+            ...TRANSACTION_HANDLERS,
+            ...TRANSACTION_HANDLERS,
+            ...cheatcodeResults,
+        });
+        const provider = createE2EProvider(baseConfig);
+        const contract = ANVIL_ACCOUNTS[1]!.address;
+
+        await mine(provider);
+        await mine(provider, 10, 12);
+        await setBalance(provider, TEST_ADDRESS, 10n ** 18n);
+        await setCode(provider, contract, "0x6080");
+        await setStorageAt(provider, contract, "0x0", "0x1");
+        await setNextBlockTimestamp(provider, 1_700_000_000);
+        await increaseTime(provider, 60);
+        await impersonateAccount(provider, contract);
+        await stopImpersonatingAccount(provider, contract);
+
+        expect(rpcCalls(mockFetch).map(([, method, params]) => [method, params])).toEqual([
+            ["anvil_mine", ["0x1"]],
+            ["anvil_mine", ["0xa", "0xc"]],
+            ["anvil_setBalance", [TEST_ADDRESS, "0xde0b6b3a7640000"]],
+            ["anvil_setCode", [contract, "0x6080"]],
+            ["anvil_setStorageAt", [contract, "0x0", `0x${"0".repeat(63)}1`]],
+            ["evm_setNextBlockTimestamp", ["0x6553f100"]],
+            ["evm_increaseTime", ["0x3c"]],
+            ["anvil_impersonateAccount", [contract]],
+            ["anvil_stopImpersonatingAccount", [contract]],
+        ]);
+    });
+
+    it("should target the current chain's RPC URL after switching chains", async () => {
+        const mockFetch = mockRpc({
+            ...TRANSACTION_HANDLERS,
+            ...TRANSACTION_HANDLERS,
+            ...cheatcodeResults,
+        });
+        const provider = createE2EProvider({
+            chains: [mainnet, arbitrum],
+            rpcUrls: { 1: "http://mainnet-rpc:8545", 42161: "http://arbitrum-rpc:8546" },
+            account: TEST_PRIVATE_KEY,
+        });
+
+        await provider.mine();
+        provider.setChain(42161);
+        await provider.mine();
+
+        expect(rpcCalls(mockFetch).map(([url]) => url)).toEqual([
+            "http://mainnet-rpc:8545",
+            "http://arbitrum-rpc:8546",
+        ]);
+    });
+
+    it("should propagate RPC errors", async () => {
+        mockRpc(TRANSACTION_HANDLERS);
+        const provider = createE2EProvider(baseConfig);
+
+        await expect(provider.snapshot()).rejects.toThrow("evm_snapshot not mocked");
+    });
+
+    it("should throw for provider without __internal", async () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        await expect(snapshot(fakeProvider)).rejects.toThrow("Provider does not support snapshot");
+        await expect(setBalance(fakeProvider, TEST_ADDRESS, 1n)).rejects.toThrow(
+            "Provider does not support setBalance",
+        );
     });
 });
 
@@ -1031,6 +3100,32 @@ describe("provider control methods (direct API)", () => {
     });
 });
 
+describe("deriveAnvilAccounts", () => {
+    it("should reproduce ANVIL_ACCOUNTS from the default mnemonic", () => {
+        expect(deriveAnvilAccounts(DEFAULT_ANVIL_MNEMONIC, 10)).toEqual(ANVIL_ACCOUNTS);
+    });
+
+    it("should derive the requested number of accounts", () => {
+        const accounts = deriveAnvilAccounts(DEFAULT_ANVIL_MNEMONIC, 12);
+
+        expect(accounts).toHaveLength(12);
+        expect(accounts.slice(0, 10)).toEqual(ANVIL_ACCOUNTS);
+        expect(privateKeyToAccount(accounts[11]!.privateKey).address).toBe(accounts[11]!.address);
+    });
+
+    it("should use the derivation path prefix", () => {
+        const [account] = deriveAnvilAccounts(DEFAULT_ANVIL_MNEMONIC, 1, "m/44'/60'/1'/0/");
+
+        expect(account!.address).not.toBe(ANVIL_ACCOUNTS[0]!.address);
+    });
+
+    it("should throw for invalid counts", () => {
+        expect(() => deriveAnvilAccounts(DEFAULT_ANVIL_MNEMONIC, 0)).toThrow(
+            "Invalid accounts count: 0",
+        );
+    });
+});
+
 describe("ProviderRpcError", () => {
     it("should have correct properties", () => {
         const error = new ProviderRpcError(4001, "User rejected", { extra: "data" });
@@ -1059,4 +3154,16 @@ describe("ProviderErrorCode", () => {
         expect(ProviderErrorCode.Disconnected).toBe(4900);
         expect(ProviderErrorCode.ChainDisconnected).toBe(4901);
     });
+
+    it("should have the chain, JSON-RPC and EIP-1474 error codes", () => {
+        expect(ProviderErrorCode.UnrecognizedChainId).toBe(4902);
+        expect(ProviderErrorCode.ParseError).toBe(-32700);
+        expect(ProviderErrorCode.InvalidRequest).toBe(-32600);
+        expect(ProviderErrorCode.InternalError).toBe(-32603);
+        expect(ProviderErrorCode.InvalidInput).toBe(-32000);
+        expect(ProviderErrorCode.ResourceUnavailable).toBe(-32002);
+        expect(ProviderErrorCode.MethodNotSupported).toBe(-32004);
+        expect(ProviderErrorCode.LimitExceeded).toBe(-32005);
+        expect(ProviderErrorCode.JsonRpcVersionNotSupported).toBe(-32006);
+    });
 });
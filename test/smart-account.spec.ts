@@ -0,0 +1,256 @@
+import type { Address, Hex, TransactionSerialized } from "viem";
+import type { MockInstance } from "vitest";
+import { decodeFunctionData, encodeAbiParameters, isAddressEqual, parseTransaction } from "viem";
+import {
+    entryPoint06Abi,
+    entryPoint06Address,
+    toCoinbaseSmartAccount,
+} from "viem/account-abstraction";
+import { mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { JsonRpcRequest, SmartAccountFactory } from "../src/types.js";
+import type { RpcHandlers } from "./utils/mockRpc.js";
+import { ANVIL_ACCOUNTS } from "../src/constants.js";
+import { createE2EProvider, setSigningAccount } from "../src/provider.js";
+import { ProviderErrorCode } from "../src/types.js";
+import { mockRpc, TRANSACTION_HANDLERS } from "./utils/mockRpc.js";
+
+const OWNER = ANVIL_ACCOUNTS[0]!;
+const SMART_ACCOUNT: Address = "0x5a0b54d5dc17e0aadc383d2db43b0a0d3e029c4c";
+const COINBASE_FACTORY: Address = "0xba5ed110efdba3d005bfc882d75358acbbb85842";
+// ERC-6492 wrapped signatures end with this magic value
+const ERC6492_SUFFIX = "6492".repeat(16);
+
+/**
+ * Coinbase Smart Wallet at a fixed address, so tests don't need the factory
+ */
+const implementation: SmartAccountFactory = ({ client, owner }) =>
+    toCoinbaseSmartAccount({ client, owners: [owner], version: "1.1", address: SMART_ACCOUNT });
+
+/**
+ * Anvil fork where the smart account is not deployed yet
+ */
+const FORK_HANDLERS: RpcHandlers = {
+    ...TRANSACTION_HANDLERS,
+    eth_getCode: () => "0x",
+    // Factory getAddress and EntryPoint getNonce
+    eth_call: ([call]) =>
+        isAddressEqual((call as { to: Address }).to, COINBASE_FACTORY)
+            ? encodeAbiParameters([{ type: "address" }], [SMART_ACCOUNT])
+            : encodeAbiParameters([{ type: "uint256" }], [0n]),
+    eth_estimateGas: () => "0x7a120",
+};
+
+/**
+ * Decode the handleOps call of the raw transaction the bundler stand-in sent
+ */
+function getHandleOps(mockFetch: MockInstance<typeof fetch>): {
+    to: Address | undefined;
+    userOperations: { sender: Address; initCode: Hex; maxFeePerGas: bigint; signature: Hex }[];
+    beneficiary: Address;
+} {
+    const raw = mockFetch.mock.calls
+        .map(([, init]) => JSON.parse(init?.body as string) as JsonRpcRequest)
+        .find((body) => body.method === "eth_sendRawTransaction")!
+        .params![0] as TransactionSerialized;
+    const transaction = parseTransaction(raw);
+    const { functionName, args } = decodeFunctionData({
+        abi: entryPoint06Abi,
+        data: transaction.data!,
+    });
+    expect(functionName).toBe("handleOps");
+    const [userOperations, beneficiary] = args as unknown as [
+        { sender: Address; initCode: Hex; maxFeePerGas: bigint; signature: Hex }[],
+        Address,
+    ];
+    return { to: transaction.to ?? undefined, userOperations, beneficiary };
+}
+
+function createSmartAccountProvider(): ReturnType<typeof createE2EProvider> {
+    return createE2EProvider({ chains: [mainnet], smartAccount: { implementation } });
+}
+
+describe("smart account mode", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should expose the counterfactual smart account address", async () => {
+        mockRpc(FORK_HANDLERS);
+        const provider = createSmartAccountProvider();
+
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([SMART_ACCOUNT]);
+        expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([SMART_ACCOUNT]);
+    });
+
+    it("should compute the address with the Coinbase Smart Wallet factory by default", async () => {
+        const mockFetch = mockRpc(FORK_HANDLERS);
+        const provider = createE2EProvider({ chains: [mainnet], smartAccount: {} });
+
+        const accounts = await provider.request<Address[]>({ method: "eth_accounts" });
+
+        expect(accounts.map((a) => a.toLowerCase())).toEqual([SMART_ACCOUNT]);
+        const factoryCalls = mockFetch.mock.calls
+            .map(([, init]) => JSON.parse(init?.body as string) as JsonRpcRequest)
+            .filter(
+                ({ method, params }) =>
+                    method === "eth_call" &&
+                    isAddressEqual((params![0] as { to: Address }).to, COINBASE_FACTORY),
+            );
+        expect(factoryCalls).toHaveLength(1);
+    });
+
+    it("should wrap eth_sendTransaction into a UserOperation sent to the EntryPoint", async () => {
+        const mockFetch = mockRpc(FORK_HANDLERS);
+        const provider = createSmartAccountProvider();
+
+        const hash = await provider.request({
+            method: "eth_sendTransaction",
+            params: [{ from: SMART_ACCOUNT, to: ANVIL_ACCOUNTS[1]!.address, value: "0x1" }],
+        });
+
+        expect(hash).toMatch(/^0x[0-9a-f]{64}$/);
+        const { to, userOperations, beneficiary } = getHandleOps(mockFetch);
+        const [userOperation] = userOperations;
+        expect(to?.toLowerCase()).toBe(entryPoint06Address.toLowerCase());
+        expect(beneficiary).toBe(OWNER.address);
+        expect(userOperation!.sender.toLowerCase()).toBe(SMART_ACCOUNT);
+        // Not deployed yet: the UserOperation deploys it through the factory
+        expect(userOperation!.initCode.toLowerCase()).toMatch(new RegExp(`^${COINBASE_FACTORY}`));
+        expect(userOperation!.maxFeePerGas).toBe(0n);
+        expect(userOperation!.signature).not.toBe("0x");
+    });
+
+    it("should send a wallet_sendCalls batch as one atomic UserOperation", async () => {
+        const mockFetch = mockRpc(FORK_HANDLERS);
+        const provider = createSmartAccountProvider();
+        const capabilities = await provider.request<Record<Hex, { atomic: unknown }>>({
+            method: "wallet_getCapabilities",
+            params: [SMART_ACCOUNT, ["0x1"]],
+        });
+        expect(capabilities["0x1"]!.atomic).toEqual({ status: "supported" });
+
+        const { id } = await provider.request<{ id: string }>({
+            method: "wallet_sendCalls",
+            params: [
+                {
+                    version: "2.0.0",
+                    chainId: "0x1",
+                    from: SMART_ACCOUNT,
+                    atomicRequired: true,
+                    calls: [
+                        { to: ANVIL_ACCOUNTS[1]!.address, value: "0x1" },
+                        { to: ANVIL_ACCOUNTS[2]!.address, value: "0x2" },
+                    ],
+                },
+            ],
+        });
+
+        expect(id).toMatch(/^0x[0-9a-f]{64}$/);
+        const rawTransactions = mockFetch.mock.calls.filter(
+            ([, init]) =>
+                (JSON.parse(init?.body as string) as JsonRpcRequest).method ===
+                "eth_sendRawTransaction",
+        );
+        expect(rawTransactions).toHaveLength(1);
+    });
+
+    it("should reject a wallet_sendCalls batch deploying a contract", async () => {
+        const mockFetch = mockRpc(FORK_HANDLERS);
+        const provider = createSmartAccountProvider();
+
+        await expect(
+            provider.request({
+                method: "wallet_sendCalls",
+                params: [
+                    {
+                        version: "2.0.0",
+                        chainId: "0x1",
+                        from: SMART_ACCOUNT,
+                        calls: [{ to: ANVIL_ACCOUNTS[1]!.address, value: "0x1" }, { data: "0x00" }],
+                    },
+                ],
+            }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.InvalidParams,
+            message: "Contract deployment is not supported in smart account mode.",
+        });
+        expect(mockFetch).not.toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({
+                body: expect.stringContaining("eth_sendRawTransaction") as string,
+            }),
+        );
+    });
+
+    it("should wrap signatures for ERC-1271 validation (ERC-6492 before deployment)", async () => {
+        mockRpc(FORK_HANDLERS);
+        const provider = createSmartAccountProvider();
+
+        const signature = await provider.request<Hex>({
+            method: "personal_sign",
+            params: ["0x48656c6c6f", SMART_ACCOUNT],
+        });
+
+        expect(signature.endsWith(ERC6492_SUFFIX)).toBe(true);
+    });
+
+    it("should reject eth_signTransaction with 4200", async () => {
+        mockRpc(FORK_HANDLERS);
+        const provider = createSmartAccountProvider();
+
+        await expect(
+            provider.request({ method: "eth_signTransaction", params: [{ to: SMART_ACCOUNT }] }),
+        ).rejects.toMatchObject({
+            code: ProviderErrorCode.UnsupportedMethod,
+            message: "eth_signTransaction is not supported in smart account mode.",
+        });
+    });
+
+    it("should reject addresses other than the smart account in strict mode", async () => {
+        mockRpc(FORK_HANDLERS);
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            smartAccount: { implementation },
+            addressValidation: "strict",
+        });
+
+        await expect(
+            provider.request({ method: "personal_sign", params: ["0x01", OWNER.address] }),
+        ).rejects.toMatchObject({ code: ProviderErrorCode.Unauthorized });
+    });
+
+    it("should emit the new owner's smart account on setSigningAccount", async () => {
+        mockRpc(FORK_HANDLERS);
+        const factory = vi.fn(implementation);
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            smartAccount: { implementation: factory },
+        });
+        const handler = vi.fn();
+        provider.on("accountsChanged", handler);
+
+        setSigningAccount(provider, 1);
+
+        await vi.waitFor(() => expect(handler).toHaveBeenCalledWith([SMART_ACCOUNT]));
+        expect(factory.mock.calls[0]![0].owner.address).toBe(ANVIL_ACCOUNTS[1]!.address);
+    });
+
+    it("should require a local owner account", async () => {
+        const provider = createSmartAccountProvider();
+        setSigningAccount(provider, { impersonate: OWNER.address });
+
+        await expect(provider.request({ method: "eth_accounts" })).rejects.toThrow(
+            "Smart account mode needs a local owner account",
+        );
+    });
+
+    it("should only support a single account", () => {
+        const provider = createSmartAccountProvider();
+
+        expect(() => provider.addAccount(1)).toThrow(
+            "Smart account mode supports a single account.",
+        );
+    });
+});
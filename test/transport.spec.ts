@@ -0,0 +1,139 @@
+import type { Hex } from "viem";
+import { custom, keccak256, parseTransaction } from "viem";
+import { arbitrum, mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { JsonRpcRequest, JsonRpcResponse } from "../src/types.js";
+import { ANVIL_ACCOUNTS } from "../src/constants.js";
+import { createE2EProvider, setChain } from "../src/provider.js";
+import { jsonRpcTransport } from "../src/transport.js";
+
+/**
+ * JSON-RPC handler answering like an Anvil node, recording the requests it receives
+ */
+function createHandler(): {
+    handler: (request: JsonRpcRequest) => Promise<JsonRpcResponse>;
+    requests: JsonRpcRequest[];
+} {
+    const results: Record<string, (params: unknown[]) => unknown> = {
+        eth_chainId: () => "0x1",
+        eth_blockNumber: () => "0x10",
+        eth_getTransactionCount: () => "0x0",
+        eth_getBlockByNumber: () => ({ number: "0x1", baseFeePerGas: "0x1" }),
+        eth_maxPriorityFeePerGas: () => "0x1",
+        eth_estimateGas: () => "0x5208",
+        eth_sendRawTransaction: ([raw]) => keccak256(raw as Hex),
+    };
+    const requests: JsonRpcRequest[] = [];
+
+    const handler = async (request: JsonRpcRequest): Promise<JsonRpcResponse> => {
+        requests.push(request);
+        const result = results[request.method];
+        return result
+            ? { jsonrpc: "2.0", id: request.id, result: result(request.params ?? []) }
+            : {
+                  jsonrpc: "2.0",
+                  id: request.id,
+                  error: { code: 3, message: "execution reverted", data: "0x1234" },
+              };
+    };
+    return { handler, requests };
+}
+
+describe("transport", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should send reads through the chain's transport instead of fetch", async () => {
+        const mockFetch = vi.spyOn(global, "fetch");
+        const { handler, requests } = createHandler();
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            transport: { 1: jsonRpcTransport(handler) },
+        });
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+
+        expect(requests).toEqual([
+            { jsonrpc: "2.0", id: 1, method: "eth_blockNumber", params: undefined },
+        ]);
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should accept JSON-RPC handlers given as { handler }", async () => {
+        const { handler, requests } = createHandler();
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            transport: { 1: { handler } },
+        });
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x10");
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: ANVIL_ACCOUNTS[1]!.address }] }),
+        ).rejects.toMatchObject({ code: 3, message: "execution reverted", data: "0x1234" });
+        expect(requests.map((r) => r.method)).toEqual(["eth_blockNumber", "eth_call"]);
+    });
+
+    it("should send signed transactions through the chain's transport", async () => {
+        const mockFetch = vi.spyOn(global, "fetch");
+        const { handler, requests } = createHandler();
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            transport: { 1: jsonRpcTransport(handler) },
+        });
+
+        const hash = await provider.request({
+            method: "eth_sendTransaction",
+            params: [{ to: ANVIL_ACCOUNTS[1]!.address, value: "0x1" }],
+        });
+
+        const raw = requests.find((r) => r.method === "eth_sendRawTransaction")!.params![0] as Hex;
+        expect(hash).toBe(keccak256(raw));
+        expect(parseTransaction(raw).to).toBe(ANVIL_ACCOUNTS[1]!.address.toLowerCase());
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should surface upstream errors with their code, message and data", async () => {
+        const { handler } = createHandler();
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            transport: { 1: jsonRpcTransport(handler) },
+        });
+
+        await expect(
+            provider.request({ method: "eth_call", params: [{ to: "0x" }, "latest"] }),
+        ).rejects.toMatchObject({ code: 3, message: "execution reverted", data: "0x1234" });
+    });
+
+    it("should accept any viem transport", async () => {
+        const request = vi.fn(async () => "0x20");
+        const provider = createE2EProvider({
+            chains: [mainnet],
+            transport: { 1: custom({ request }) },
+        });
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x20");
+        expect(request).toHaveBeenCalledWith({ method: "eth_blockNumber", params: undefined });
+    });
+
+    it("should fall back to the RPC URL for chains without a transport", async () => {
+        const mockFetch = vi
+            .spyOn(global, "fetch")
+            .mockResolvedValue(
+                new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: "0x30" })),
+            );
+        const { handler, requests } = createHandler();
+        const provider = createE2EProvider({
+            chains: [mainnet, arbitrum],
+            rpcUrls: { 42161: "http://localhost:8546" },
+            transport: { 1: jsonRpcTransport(handler) },
+        });
+
+        setChain(provider, arbitrum.id);
+
+        expect(await provider.request({ method: "eth_blockNumber" })).toBe("0x30");
+        expect(mockFetch.mock.calls[0]![0]).toBe("http://localhost:8546");
+        expect(requests).toEqual([]);
+    });
+});
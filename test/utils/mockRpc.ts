@@ -0,0 +1,61 @@
+import type { Hex } from "viem";
+import type { MockInstance } from "vitest";
+import { keccak256 } from "viem";
+import { vi } from "vitest";
+
+import type { JsonRpcError, JsonRpcRequest } from "../../src/types.js";
+import { ProviderRpcError } from "../../src/types.js";
+
+/**
+ * Answers of a mocked node by method: each handler returns the result for the request params,
+ * or throws a ProviderRpcError to answer with a JSON-RPC error
+ */
+export type RpcHandlers = Record<string, (params: unknown[]) => unknown>;
+
+/**
+ * Handlers for everything viem needs to prepare and send a transaction from a local account
+ */
+export const TRANSACTION_HANDLERS: RpcHandlers = {
+    eth_chainId: () => "0x1",
+    eth_getTransactionCount: () => "0x0",
+    eth_getBlockByNumber: () => ({ number: "0x1", baseFeePerGas: "0x1" }),
+    eth_maxPriorityFeePerGas: () => "0x1",
+    eth_estimateGas: () => "0x5208",
+    eth_sendRawTransaction: ([raw]) => keccak256(raw as Hex),
+};
+
+/**
+ * Mock fetch as a JSON-RPC node answering with the given handlers.
+ * Methods without a handler go to `unmocked`, which fails them with -32601 by default.
+ * Handlers throwing anything but a ProviderRpcError make fetch reject, like a network failure.
+ */
+export function mockRpc(
+    handlers: RpcHandlers = {},
+    unmocked: (method: string) => unknown = (method): never => {
+        throw new ProviderRpcError(-32601, `${method} not mocked`);
+    },
+): MockInstance<typeof fetch> {
+    return vi.spyOn(global, "fetch").mockImplementation(async (_url, init) => {
+        const { id, method, params = [] } = JSON.parse(init?.body as string) as JsonRpcRequest;
+        const handler = handlers[method];
+        let body: object;
+        try {
+            const result = handler ? handler(params) : unmocked(method);
+            body = { jsonrpc: "2.0", id, result };
+        } catch (error) {
+            if (!(error instanceof ProviderRpcError)) throw error;
+            const { code, message, data } = error;
+            body = { jsonrpc: "2.0", id, error: { code, message, data } };
+        }
+        return new Response(JSON.stringify(body));
+    });
+}
+
+/**
+ * Handler failing every request with the given JSON-RPC error
+ */
+export function failWith({ code, message, data }: JsonRpcError): () => never {
+    return () => {
+        throw new ProviderRpcError(code, message, data);
+    };
+}
@@ -0,0 +1,231 @@
+import type { MockInstance } from "vitest";
+import { createWalletClient, custom, encodeFunctionResult, erc20Abi } from "viem";
+import { arbitrum, mainnet } from "viem/chains";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+    createE2EProvider,
+    getWatchedAssets,
+    setChain,
+    setRejectWatchAsset,
+} from "../src/provider.js";
+import { ProviderErrorCode, ProviderRpcError } from "../src/types.js";
+import { mockRpc } from "./utils/mockRpc.js";
+
+const ACCOUNT = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const PUNKS = "0xb47e3cd837dDF8e4c57F05d70Ab865de6e193BBB";
+
+const USDC_ASSET = {
+    type: "ERC20",
+    options: { address: USDC, symbol: "USDC", decimals: 6 },
+} as const;
+
+function watchAsset(
+    provider: ReturnType<typeof createE2EProvider>,
+    asset: unknown = USDC_ASSET,
+): Promise<unknown> {
+    // EIP-747 sends the parameter unwrapped, like viem's watchAsset
+    return provider.request({ method: "wallet_watchAsset", params: asset as unknown[] });
+}
+
+/**
+ * Mock fetch as a node answering symbol() and decimals() of USDC, reverting other calls
+ */
+function mockToken(symbol = "USDC", decimals = 6): MockInstance<typeof fetch> {
+    const results: Record<string, unknown> = {
+        "0x95d89b41": encodeFunctionResult({
+            abi: erc20Abi,
+            functionName: "symbol",
+            result: symbol,
+        }),
+        "0x313ce567": encodeFunctionResult({
+            abi: erc20Abi,
+            functionName: "decimals",
+            result: decimals,
+        }),
+    };
+    return mockRpc({
+        eth_call: ([call]) => {
+            const { to, data } = call as { to: string; data: string };
+            const result = to.toLowerCase() === USDC.toLowerCase() ? results[data] : undefined;
+            if (result === undefined) throw new ProviderRpcError(3, "execution reverted");
+            return result;
+        },
+    });
+}
+
+describe("wallet_watchAsset", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should add the token to the active account on the current chain", async () => {
+        const provider = createE2EProvider();
+
+        expect(await watchAsset(provider)).toBe(true);
+
+        expect(getWatchedAssets(provider)).toEqual([
+            { ...USDC_ASSET, account: ACCOUNT, chainId: 1 },
+        ]);
+    });
+
+    it("should accept requests sent through viem", async () => {
+        const provider = createE2EProvider();
+        const client = createWalletClient({ chain: mainnet, transport: custom(provider) });
+
+        expect(await client.watchAsset(USDC_ASSET)).toBe(true);
+        expect(getWatchedAssets(provider)).toHaveLength(1);
+    });
+
+    it("should accept the parameter wrapped in an array", async () => {
+        const provider = createE2EProvider();
+
+        expect(await watchAsset(provider, [USDC_ASSET])).toBe(true);
+        expect(getWatchedAssets(provider)).toHaveLength(1);
+    });
+
+    it("should replace an asset suggested again and keep chains apart", async () => {
+        const provider = createE2EProvider({ chains: [mainnet, arbitrum] });
+
+        await watchAsset(provider);
+        await watchAsset(provider, {
+            ...USDC_ASSET,
+            options: { ...USDC_ASSET.options, image: "https://example.com/usdc.png" },
+        });
+        setChain(provider, arbitrum.id);
+        await watchAsset(provider);
+
+        const assets = getWatchedAssets(provider);
+        expect(assets.map((asset) => asset.chainId)).toEqual([1, 42161]);
+        expect(assets[0]?.options.image).toBe("https://example.com/usdc.png");
+    });
+
+    it("should add NFTs by token ID", async () => {
+        const provider = createE2EProvider();
+        const punk = (tokenId: string): unknown => ({
+            type: "ERC721",
+            options: { address: PUNKS, tokenId },
+        });
+
+        await watchAsset(provider, punk("1"));
+        await watchAsset(provider, punk("2"));
+
+        expect(getWatchedAssets(provider).map((asset) => asset.options.tokenId)).toEqual([
+            "1",
+            "2",
+        ]);
+    });
+
+    it("should resolve false without adding the asset when the reject switch is on", async () => {
+        const provider = createE2EProvider();
+        setRejectWatchAsset(provider, true);
+
+        expect(await watchAsset(provider)).toBe(false);
+        expect(getWatchedAssets(provider)).toEqual([]);
+
+        setRejectWatchAsset(provider, false);
+        expect(await watchAsset(provider)).toBe(true);
+    });
+
+    it.each([
+        ["a missing parameter", null, "Expected a single { type, options } object."],
+        ["an unknown type", { ...USDC_ASSET, type: "ERC777" }, "Invalid type ERC777"],
+        ["missing options", { type: "ERC20" }, "Invalid options"],
+        [
+            "an invalid address",
+            { ...USDC_ASSET, options: { ...USDC_ASSET.options, address: "0x1234" } },
+            "Invalid options.address",
+        ],
+        [
+            "a too long symbol",
+            { ...USDC_ASSET, options: { ...USDC_ASSET.options, symbol: "USDCOIN12345" } },
+            "Invalid options.symbol",
+        ],
+        [
+            "a missing decimals",
+            { ...USDC_ASSET, options: { address: USDC, symbol: "USDC" } },
+            "Invalid options.decimals",
+        ],
+        [
+            "an NFT without tokenId",
+            { type: "ERC1155", options: { address: PUNKS } },
+            "Invalid options.tokenId",
+        ],
+    ])("should reject %s with -32602", async (_case, asset, message) => {
+        const provider = createE2EProvider();
+
+        const error = await watchAsset(provider, asset).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ProviderRpcError);
+        expect(error).toMatchObject({ code: ProviderErrorCode.InvalidParams });
+        expect((error as ProviderRpcError).message).toContain(message);
+        expect(getWatchedAssets(provider)).toEqual([]);
+    });
+
+    it("should not read the token by default", async () => {
+        const mockFetch = mockToken("USDT");
+        const provider = createE2EProvider();
+
+        expect(await watchAsset(provider)).toBe(true);
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    describe("with verifyWatchedAssets", () => {
+        it("should add tokens matching their contract", async () => {
+            const mockFetch = mockToken();
+            const provider = createE2EProvider({ verifyWatchedAssets: true });
+
+            expect(await watchAsset(provider)).toBe(true);
+            expect(mockFetch).toHaveBeenCalled();
+        });
+
+        it.each([
+            ["symbol", "USDT", 6, "Symbol USDC does not match USDT"],
+            ["decimals", "USDC", 18, "Decimals 6 do not match 18"],
+        ])(
+            "should reject a mismatching %s with -32602",
+            async (_field, symbol, decimals, message) => {
+                mockToken(symbol, decimals);
+                const provider = createE2EProvider({ verifyWatchedAssets: true });
+
+                await expect(watchAsset(provider)).rejects.toMatchObject({
+                    code: ProviderErrorCode.InvalidParams,
+                    message: expect.stringContaining(message) as string,
+                });
+                expect(getWatchedAssets(provider)).toEqual([]);
+            },
+        );
+
+        it("should reject tokens whose metadata cannot be read", async () => {
+            mockToken();
+            const provider = createE2EProvider({ verifyWatchedAssets: true });
+
+            await expect(
+                watchAsset(provider, {
+                    ...USDC_ASSET,
+                    options: { ...USDC_ASSET.options, address: PUNKS },
+                }),
+            ).rejects.toMatchObject({
+                code: ProviderErrorCode.InvalidParams,
+                message: `Could not read the symbol and decimals of token ${PUNKS} on chain 1.`,
+            });
+        });
+    });
+
+    it("should throw for provider without __internal", () => {
+        const fakeProvider = {
+            emit: vi.fn(),
+            on: vi.fn(),
+            removeListener: vi.fn(),
+            request: vi.fn(),
+        };
+
+        expect(() => setRejectWatchAsset(fakeProvider, true)).toThrow(
+            "Provider does not support setRejectWatchAsset",
+        );
+        expect(() => getWatchedAssets(fakeProvider)).toThrow(
+            "Provider does not support getWatchedAssets",
+        );
+    });
+});